@@ -0,0 +1,173 @@
+/**
+ * HTTP API client
+ * Talks to the HTTP endpoints served alongside the WebSocket server
+ */
+
+import type {
+  ArtifactData,
+  Message,
+  RunPhase,
+  RunRecord,
+  RunSummary,
+  StatusData,
+} from './types';
+
+export type ConnectionRole = 'producer' | 'viewer';
+
+export interface MintedToken {
+  token: string;
+  containerID: string;
+  role: ConnectionRole;
+  expiresAt: string;
+}
+
+export interface StoredRunLog {
+  run: RunRecord;
+  messages: Message[];
+}
+
+export interface RunFilter {
+  status?: StatusData['status'];
+  phase?: RunPhase;
+  batch?: string;
+  limit?: number;
+}
+
+export class ApiError extends Error {
+  constructor(
+    public statusCode: number,
+    message: string
+  ) {
+    super(`Server API Error (${statusCode}): ${message}`);
+    this.name = 'ApiError';
+  }
+}
+
+/**
+ * Derive the HTTP base URL from a WebSocket server URL
+ */
+export function toHttpUrl(serverUrl: string): string {
+  const url = new URL(serverUrl);
+  url.protocol = url.protocol === 'wss:' ? 'https:' : 'http:';
+  url.search = '';
+  url.pathname = url.pathname.replace(/\/$/, '');
+  return url.toString().replace(/\/$/, '');
+}
+
+/**
+ * Client for the WebSocket server's HTTP API
+ */
+export class ServerApiClient {
+  private baseUrl: string;
+  private authToken: string;
+
+  constructor(serverUrl: string, authToken: string) {
+    this.baseUrl = toHttpUrl(serverUrl);
+    this.authToken = authToken;
+  }
+
+  /**
+   * Send a request and parse the JSON response
+   */
+  private async request<T>(
+    method: string,
+    path: string,
+    body?: unknown
+  ): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}${path}`, {
+        method,
+        headers: {
+          Authorization: `Bearer ${this.authToken}`,
+          ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+        },
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+      });
+    } catch (error) {
+      throw new Error(
+        `Cannot reach server at ${this.baseUrl}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+
+    const payload = (await response.json().catch(() => ({}))) as {
+      error?: string;
+    };
+    if (!response.ok) {
+      throw new ApiError(response.status, payload.error || response.statusText);
+    }
+
+    return payload as T;
+  }
+
+  /**
+   * Mint a token scoped to a container and role
+   */
+  public async mintToken(
+    containerID: string,
+    role: ConnectionRole,
+    ttl?: number
+  ): Promise<MintedToken> {
+    return this.request<MintedToken>('POST', '/tokens', {
+      containerID,
+      role,
+      ttl,
+    });
+  }
+
+  /**
+   * List runs, newest first, with their current phase and live state
+   */
+  public async listRuns(filter: RunFilter = {}): Promise<RunSummary[]> {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(filter)) {
+      if (value !== undefined) {
+        params.set(key, String(value));
+      }
+    }
+    const query = params.toString() ? `?${params}` : '';
+    const { runs } = await this.request<{ runs: RunSummary[] }>(
+      'GET',
+      `/runs${query}`
+    );
+    return runs;
+  }
+
+  /**
+   * Fetch a run's metadata with its live state
+   */
+  public async getRun(containerID: string): Promise<RunSummary> {
+    return this.request<RunSummary>(
+      'GET',
+      `/runs/${encodeURIComponent(containerID)}`
+    );
+  }
+
+  /**
+   * Fetch a stored run's metadata and message log, optionally only the
+   * messages after a sequence number or timestamp
+   */
+  public async getRunLogs(
+    containerID: string,
+    since?: number | Date
+  ): Promise<StoredRunLog> {
+    const query =
+      since === undefined
+        ? ''
+        : `?since=${encodeURIComponent(since instanceof Date ? since.toISOString() : since)}`;
+    return this.request<StoredRunLog>(
+      'GET',
+      `/runs/${encodeURIComponent(containerID)}/logs${query}`
+    );
+  }
+
+  /**
+   * Fetch the patch artifact exported by a run
+   */
+  public async getRunPatch(containerID: string): Promise<ArtifactData> {
+    return this.request<ArtifactData>(
+      'GET',
+      `/runs/${encodeURIComponent(containerID)}/patch`
+    );
+  }
+}
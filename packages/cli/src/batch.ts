@@ -0,0 +1,411 @@
+/**
+ * Batch runner
+ * Fans a list of tasks out to wrapper containers with a concurrency limit
+ */
+
+import { EventEmitter } from 'node:events';
+import type { ServerApiClient } from './api-client';
+import { waitForCompletion } from './completion';
+import type { DockerManager, WrapperContainerOptions } from './docker';
+import { succeeded } from './task-graph';
+import type {
+  ArtifactData,
+  AttemptResult,
+  CompleteData,
+  ErrorData,
+  FileStat,
+  Message,
+  RunPhase,
+  RunUsage,
+  StatusData,
+  VerificationResult,
+} from './types';
+import { MessageType } from './types';
+import { LogStreamClient } from './websocket-client';
+
+export interface BatchTask {
+  name: string;
+  options: WrapperContainerOptions;
+  dependsOn?: number[]; // Indexes of tasks that must succeed first
+}
+
+export type BatchTaskStatus = 'pending' | 'skipped' | StatusData['status'];
+
+export interface BatchTaskResult {
+  name: string;
+  containerID: string;
+  status: BatchTaskStatus;
+  phase?: RunPhase;
+  baseRef?: string; // Branch of a dependency the task was started on
+  exitCode?: number;
+  duration?: number;
+  message?: string;
+  branch?: string;
+  commitSha?: string;
+  files?: FileStat[]; // Per-file stats from the run's patch artifact
+  usage?: RunUsage;
+  verification?: VerificationResult;
+  attempts?: AttemptResult[];
+  variables?: Record<string, string>; // Values a task template was expanded with
+}
+
+export interface BatchRunnerOptions {
+  docker: DockerManager;
+  api: ServerApiClient;
+  serverUrl: string;
+  authToken: string;
+  concurrency: number;
+  tokenTtl: number; // Lifetime of each container's producer token (in s)
+}
+
+/**
+ * Total the usage of a batch's tasks, or undefined if none reported any
+ */
+export function sumUsage(results: BatchTaskResult[]): RunUsage | undefined {
+  const usages = results
+    .map((result) => result.usage)
+    .filter((usage) => usage !== undefined);
+  if (usages.length === 0) {
+    return undefined;
+  }
+
+  return usages.reduce<RunUsage>(
+    (total, usage) => ({
+      inputTokens: total.inputTokens + usage.inputTokens,
+      outputTokens: total.outputTokens + usage.outputTokens,
+      cacheCreationInputTokens:
+        total.cacheCreationInputTokens + usage.cacheCreationInputTokens,
+      cacheReadInputTokens:
+        total.cacheReadInputTokens + usage.cacheReadInputTokens,
+      costUsd: total.costUsd + usage.costUsd,
+      numTurns: total.numTurns + usage.numTurns,
+      estimated: total.estimated || usage.estimated,
+    }),
+    {
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheCreationInputTokens: 0,
+      cacheReadInputTokens: 0,
+      costUsd: 0,
+      numTurns: 0,
+    }
+  );
+}
+
+/**
+ * Run async workers over items with at most `limit` in flight
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const lanes = Array.from(
+    { length: Math.min(Math.max(limit, 1), items.length) },
+    async () => {
+      while (next < items.length) {
+        const index = next++;
+        await worker(items[index], index);
+      }
+    }
+  );
+  await Promise.all(lanes);
+}
+
+/**
+ * Launches one container per task and tracks each one through the
+ * WebSocket server until it completes. Emits `update` on every change to a
+ * task's result, `done` once a task has finished or been skipped, and
+ * `message` for each of a task's messages.
+ */
+export class BatchRunner extends EventEmitter {
+  private options: BatchRunnerOptions;
+
+  constructor(options: BatchRunnerOptions) {
+    super();
+    this.options = options;
+  }
+
+  /**
+   * Run every task and resolve with their results in task order
+   */
+  public async run(tasks: BatchTask[]): Promise<BatchTaskResult[]> {
+    const results: BatchTaskResult[] = tasks.map((task) => ({
+      name: task.name,
+      containerID: task.options.containerID,
+      status: 'pending',
+      variables: task.options.variables,
+    }));
+
+    if (tasks.some((task) => (task.dependsOn?.length ?? 0) > 0)) {
+      await this.runGraph(tasks, results);
+    } else {
+      await runWithConcurrency(
+        tasks,
+        this.options.concurrency,
+        async (task, index) => {
+          await this.runTask(task, results[index]);
+        }
+      );
+    }
+
+    return results;
+  }
+
+  /**
+   * Run tasks as their dependencies succeed, skipping those downstream of
+   * a failure. Each dependent task starts on the branch its dependencies
+   * pushed.
+   */
+  private async runGraph(
+    tasks: BatchTask[],
+    results: BatchTaskResult[]
+  ): Promise<void> {
+    // The tasks whose pushed changes are on each task's branch, and that
+    // branch: its own, or the one it started on if it pushed nothing
+    const contains = tasks.map(() => new Set<number>());
+    const heads: (string | undefined)[] = tasks.map(() => undefined);
+    const running = new Map<number, Promise<number>>();
+    const settled = new Set<number>();
+    // Tasks whose completion, and so whose pushed branch, is unknown
+    const unreported = new Set<number>();
+
+    const skip = (index: number, message: string): void => {
+      this.update(results[index], { status: 'skipped', message });
+      this.emit('done', results[index]);
+      settled.add(index);
+    };
+
+    const start = (index: number): void => {
+      const dependencies = tasks[index].dependsOn ?? [];
+      const upstream = new Set(
+        dependencies.flatMap((dependency) => Array.from(contains[dependency]))
+      );
+      const source =
+        upstream.size > 0
+          ? dependencies.find((dependency) =>
+              Array.from(upstream).every((changer) =>
+                contains[dependency].has(changer)
+              )
+            )
+          : undefined;
+      if (upstream.size > 0 && source === undefined) {
+        const names = dependencies.map(
+          (dependency) => results[dependency].name
+        );
+        skip(
+          index,
+          `Skipped: ${names.join(', ')} pushed separate branches; make one depend on the other`
+        );
+        return;
+      }
+
+      const baseRef = source !== undefined ? heads[source] : undefined;
+      const task: BatchTask = baseRef
+        ? { ...tasks[index], options: { ...tasks[index].options, baseRef } }
+        : tasks[index];
+      if (baseRef) {
+        results[index].baseRef = baseRef;
+      }
+
+      running.set(
+        index,
+        this.runTask(task, results[index]).then((reported) => {
+          const result = results[index];
+          if (!reported) {
+            unreported.add(index);
+          }
+          contains[index] = new Set(upstream);
+          if (result.branch) {
+            contains[index].add(index);
+          }
+          heads[index] = result.branch ?? baseRef;
+          return index;
+        })
+      );
+    };
+
+    while (settled.size < tasks.length) {
+      let changed = false;
+      for (const [index, task] of tasks.entries()) {
+        if (settled.has(index) || running.has(index)) {
+          continue;
+        }
+
+        const dependencies = task.dependsOn ?? [];
+        const failed = dependencies.find(
+          (dependency) =>
+            settled.has(dependency) && !succeeded(results[dependency])
+        );
+        const unknown = dependencies.find((dependency) =>
+          unreported.has(dependency)
+        );
+        if (failed !== undefined) {
+          const reason =
+            results[failed].status === 'budget_exceeded'
+              ? 'stopped at its cost budget'
+              : 'did not complete successfully';
+          skip(index, `Skipped: ${results[failed].name} ${reason}`);
+          changed = true;
+        } else if (unknown !== undefined) {
+          skip(
+            index,
+            `Skipped: ${results[unknown].name} exited without reporting the branch it pushed`
+          );
+          changed = true;
+        } else if (
+          running.size < this.options.concurrency &&
+          dependencies.every((dependency) => settled.has(dependency))
+        ) {
+          start(index);
+          changed = true;
+        }
+      }
+
+      if (!changed) {
+        if (running.size === 0) {
+          break;
+        }
+        const index = await Promise.race(running.values());
+        running.delete(index);
+        settled.add(index);
+      }
+    }
+  }
+
+  /**
+   * Apply changes to a result and notify listeners
+   */
+  private update(
+    result: BatchTaskResult,
+    changes: Partial<BatchTaskResult>
+  ): void {
+    Object.assign(result, changes);
+    this.emit('update', result);
+  }
+
+  /**
+   * Launch a single task and wait for it to complete. Resolves with whether
+   * the task's completion was reported, by the container or the server.
+   */
+  private async runTask(
+    task: BatchTask,
+    result: BatchTaskResult
+  ): Promise<boolean> {
+    const { docker } = this.options;
+    const client = new LogStreamClient({
+      serverUrl: this.options.serverUrl,
+      token: this.options.authToken,
+      containerID: task.options.containerID,
+    });
+    client.on('error', (error: Error) => {
+      this.emit('error', error, result);
+    });
+
+    const startTime = Date.now();
+    let reported = false;
+
+    try {
+      // Mint just before launch so queued tasks get a full token lifetime
+      const { token } = await this.options.api.mintToken(
+        task.options.containerID,
+        'producer',
+        this.options.tokenTtl
+      );
+      const container = await docker.createWrapperContainer({
+        ...task.options,
+        wsToken: token,
+      });
+      let started = false;
+      try {
+        await client.connect();
+        await docker.startContainer(container);
+        started = true;
+      } finally {
+        if (!started) {
+          await docker.removeContainer(container);
+        }
+      }
+      this.update(result, { status: 'starting' });
+
+      const completed = new Promise<CompleteData>((resolve) => {
+        client.on('message', (message: Message) => {
+          this.handleMessage(message, result, resolve);
+        });
+      });
+      const completion = await waitForCompletion(
+        this.options.api,
+        task.options.containerID,
+        completed,
+        docker.waitForExit(container)
+      );
+      reported = completion.reported;
+      const complete = completion.data;
+      const outcome =
+        complete.outcome ?? (complete.exitCode === 0 ? 'completed' : 'failed');
+      this.update(result, {
+        status: outcome,
+        phase: outcome,
+        exitCode: complete.exitCode,
+        duration: complete.duration ?? Date.now() - startTime,
+        message: complete.message ?? result.message,
+        branch: complete.branch,
+        commitSha: complete.commitSha,
+        usage: complete.usage,
+        verification: complete.verification,
+        attempts: complete.attempts,
+      });
+    } catch (error) {
+      this.update(result, {
+        status: 'failed',
+        phase: 'failed',
+        duration: Date.now() - startTime,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      client.disconnect();
+    }
+    this.emit('done', result);
+    return reported;
+  }
+
+  /**
+   * Track status, error and completion messages for a task. Every message
+   * is also re-emitted for listeners that need the task's output.
+   */
+  private handleMessage(
+    message: Message,
+    result: BatchTaskResult,
+    resolve: (data: CompleteData) => void
+  ): void {
+    this.emit('message', message, result);
+
+    switch (message.type) {
+      case MessageType.STATUS: {
+        const data = message.data as StatusData;
+        this.update(result, {
+          status: data.status,
+          phase: data.phase ?? result.phase,
+          message: data.message,
+        });
+        break;
+      }
+      case MessageType.ERROR: {
+        const data = message.data as ErrorData;
+        this.update(result, { message: data.error });
+        break;
+      }
+      case MessageType.ARTIFACT: {
+        const data = message.data as ArtifactData;
+        if (data.kind === 'patch') {
+          this.update(result, { files: data.files });
+        }
+        break;
+      }
+      case MessageType.COMPLETE:
+        resolve(message.data as CompleteData);
+        break;
+    }
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Best-of-N ranking
+ * Orders candidate runs of the same task so the best one can be picked
+ */
+
+import type { BatchTaskResult } from './batch';
+
+export type RankCriterion = 'verification' | 'changes' | 'cost' | 'duration';
+
+export const RANK_CRITERIA: RankCriterion[] = [
+  'verification',
+  'changes',
+  'cost',
+  'duration',
+];
+
+/**
+ * Passing verification first, then the smallest diff, then the cheapest
+ * and fastest run
+ */
+export const DEFAULT_RANKING: RankCriterion[] = [...RANK_CRITERIA];
+
+/**
+ * Sort key for each criterion; lower is better
+ */
+const CRITERION_KEYS: Record<
+  RankCriterion,
+  (result: BatchTaskResult) => number
+> = {
+  verification: (result) =>
+    result.verification ? (result.verification.passed ? 0 : 2) : 1,
+  changes: (result) =>
+    result.files
+      ? result.files.reduce((sum, file) => sum + file.added + file.removed, 0)
+      : Number.POSITIVE_INFINITY,
+  cost: (result) => result.usage?.costUsd ?? Number.POSITIVE_INFINITY,
+  duration: (result) => result.duration ?? Number.POSITIVE_INFINITY,
+};
+
+/**
+ * Parse a comma-separated list of ranking criteria
+ */
+export function parseRanking(value: string): RankCriterion[] {
+  const criteria = value
+    .split(',')
+    .map((criterion) => criterion.trim())
+    .filter((criterion) => criterion !== '');
+
+  for (const criterion of criteria) {
+    if (!RANK_CRITERIA.includes(criterion as RankCriterion)) {
+      throw new Error(
+        `Unknown ranking criterion "${criterion}", expected: ${RANK_CRITERIA.join(', ')}`
+      );
+    }
+  }
+  if (criteria.length === 0) {
+    throw new Error('At least one ranking criterion is required');
+  }
+  return criteria as RankCriterion[];
+}
+
+/**
+ * Whether a candidate can win: it completed and changed something
+ */
+export function isViable(result: BatchTaskResult): boolean {
+  return (
+    result.status === 'completed' &&
+    result.exitCode === 0 &&
+    (result.files?.length ?? 0) > 0
+  );
+}
+
+/**
+ * Order candidates best first. Viable candidates always come first; ties
+ * on one criterion are broken by the next.
+ */
+export function rankCandidates(
+  results: BatchTaskResult[],
+  criteria: RankCriterion[] = DEFAULT_RANKING
+): BatchTaskResult[] {
+  return [...results].sort((a, b) => {
+    const viability = Number(isViable(b)) - Number(isViable(a));
+    if (viability !== 0) {
+      return viability;
+    }
+
+    for (const criterion of criteria) {
+      const key = CRITERION_KEYS[criterion];
+      const difference = key(a) - key(b);
+      if (difference !== 0 && !Number.isNaN(difference)) {
+        return difference;
+      }
+    }
+    return 0;
+  });
+}
@@ -0,0 +1,267 @@
+/**
+ * Combining runs
+ * Applies the changes of several runs onto their shared base commit in a
+ * local repository, recording conflicts and overlapping files
+ */
+
+import { spawnSync } from 'node:child_process';
+import type { ArtifactData, FileStat } from './types';
+
+/**
+ * One run's changes, from its patch artifact or a branch
+ */
+export interface CombineSource {
+  name: string; // Container ID or branch
+  baseCommit: string;
+  files: FileStat[];
+  patches: string; // `git format-patch` series
+}
+
+export type CombineStatus = 'applied' | 'conflict' | 'empty';
+
+export interface CombineResult {
+  source: CombineSource;
+  status: CombineStatus;
+  conflicts: string[]; // Files with textual conflicts
+}
+
+export type CombineOrder = 'given' | 'smallest' | 'largest';
+
+export const COMBINE_ORDERS: CombineOrder[] = ['given', 'smallest', 'largest'];
+
+export class CombineError extends Error {
+  constructor(message: string) {
+    super(`Combine Error: ${message}`);
+    this.name = 'CombineError';
+  }
+}
+
+/**
+ * Build a source from a run's patch artifact
+ */
+export function sourceFromArtifact(
+  name: string,
+  artifact: ArtifactData
+): CombineSource {
+  if (artifact.truncated || artifact.patches === undefined) {
+    throw new CombineError(
+      `The patch of ${name} was too large to stream; combine its branch instead`
+    );
+  }
+  return {
+    name,
+    baseCommit: artifact.baseCommit,
+    files: artifact.files,
+    patches: artifact.patches,
+  };
+}
+
+/**
+ * Lines changed by a source
+ */
+function changedLines(source: CombineSource): number {
+  return source.files.reduce((sum, file) => sum + file.added + file.removed, 0);
+}
+
+/**
+ * Order sources for applying: as given, or by the size of their changes
+ */
+export function orderSources(
+  sources: CombineSource[],
+  order: CombineOrder
+): CombineSource[] {
+  if (order === 'given') {
+    return [...sources];
+  }
+  const direction = order === 'smallest' ? 1 : -1;
+  return [...sources].sort(
+    (a, b) => direction * (changedLines(a) - changedLines(b))
+  );
+}
+
+/**
+ * Files changed by more than one source, with the sources that changed them
+ */
+export function findOverlaps(sources: CombineSource[]): Map<string, string[]> {
+  const touchedBy = new Map<string, string[]>();
+  for (const source of sources) {
+    for (const file of source.files) {
+      touchedBy.set(file.path, [
+        ...(touchedBy.get(file.path) ?? []),
+        source.name,
+      ]);
+    }
+  }
+
+  return new Map(Array.from(touchedBy).filter(([, names]) => names.length > 1));
+}
+
+/**
+ * Runs git in a local repository to apply sources one at a time
+ */
+export class PatchCombiner {
+  private dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  /**
+   * Run git and return its output, throwing on a non-zero exit
+   */
+  private git(args: string[], input?: string): string {
+    const result = this.tryGit(args, input);
+    if (result.status !== 0) {
+      throw new CombineError(
+        `git ${args[0]} failed: ${result.stderr.trim() || `exit code ${result.status}`}`
+      );
+    }
+    return result.stdout;
+  }
+
+  /**
+   * Run git, returning its exit status and output
+   */
+  private tryGit(
+    args: string[],
+    input?: string
+  ): { status: number | null; stdout: string; stderr: string } {
+    const result = spawnSync('git', args, {
+      cwd: this.dir,
+      input,
+      encoding: 'utf8',
+      maxBuffer: 256 * 1024 * 1024,
+    });
+    if (result.error) {
+      throw new CombineError(`Failed to run git: ${result.error.message}`);
+    }
+    return result;
+  }
+
+  /**
+   * Check that the working tree can be switched to a new branch
+   */
+  public ensureClean(): void {
+    if (this.git(['status', '--porcelain']).trim() !== '') {
+      throw new CombineError(
+        `${this.dir} has uncommitted changes; commit or stash them first`
+      );
+    }
+  }
+
+  /**
+   * Resolve a ref to a commit, failing if it is not in the repository
+   */
+  public resolveCommit(ref: string): string {
+    const result = this.tryGit(['rev-parse', '--verify', `${ref}^{commit}`]);
+    if (result.status !== 0) {
+      throw new CombineError(
+        `${ref} is not in ${this.dir}; fetch it first (git fetch origin)`
+      );
+    }
+    return result.stdout.trim();
+  }
+
+  /**
+   * The commit the given branches forked from
+   */
+  public mergeBase(refs: string[]): string {
+    return this.git(['merge-base', '--octopus', ...refs]).trim();
+  }
+
+  /**
+   * Build a source from a branch's commits since the base commit. Renames
+   * are listed as a deletion and an addition, so both paths are compared
+   * for overlaps and each record is a single NUL-terminated entry.
+   */
+  public sourceFromBranch(ref: string, baseCommit: string): CombineSource {
+    const files = this.git([
+      'diff',
+      '--numstat',
+      '-z',
+      '--no-renames',
+      baseCommit,
+      ref,
+    ])
+      .split('\0')
+      .filter((entry) => entry !== '')
+      .map((entry): FileStat => {
+        const [added, removed, path] = entry.split('\t');
+        const binary = added === '-';
+        return {
+          path,
+          added: binary ? 0 : Number.parseInt(added, 10),
+          removed: binary ? 0 : Number.parseInt(removed, 10),
+          binary,
+        };
+      });
+
+    return {
+      name: ref,
+      baseCommit,
+      files,
+      patches: this.git([
+        'format-patch',
+        '--stdout',
+        '--binary',
+        `${baseCommit}..${ref}`,
+      ]),
+    };
+  }
+
+  /**
+   * Create and check out a branch at the base commit
+   */
+  public startBranch(branch: string, baseCommit: string): void {
+    this.git(['checkout', '-q', '-b', branch, baseCommit]);
+  }
+
+  /**
+   * Apply a source's commits with `git am --3way`. On a conflict the
+   * source is skipped, leaving the branch as it was.
+   */
+  public apply(source: CombineSource): CombineResult {
+    if (source.patches.trim() === '') {
+      return { source, status: 'empty', conflicts: [] };
+    }
+
+    const result = this.tryGit(['am', '--3way', '--quiet'], source.patches);
+    if (result.status === 0) {
+      return { source, status: 'applied', conflicts: [] };
+    }
+
+    const unmerged = this.tryGit([
+      'diff',
+      '--name-only',
+      '--diff-filter=U',
+      '-z',
+    ]).stdout;
+    const conflicts = unmerged.split('\0').filter((entry) => entry !== '');
+    this.tryGit(['am', '--abort']);
+
+    return {
+      source,
+      status: 'conflict',
+      // A patch that fails without unmerged paths still conflicts, e.g.
+      // when a file it changes was deleted
+      conflicts:
+        conflicts.length > 0
+          ? conflicts
+          : source.files.map((file) => file.path),
+    };
+  }
+
+  /**
+   * Push a branch so a container can check it out
+   */
+  public push(remote: string, branch: string): void {
+    this.git(['push', '-q', '-u', remote, branch]);
+  }
+
+  /**
+   * URL of a remote
+   */
+  public remoteUrl(remote: string): string {
+    return this.git(['remote', 'get-url', remote]).trim();
+  }
+}
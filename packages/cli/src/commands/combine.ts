@@ -0,0 +1,353 @@
+/**
+ * Combine command
+ * Applies several runs' changes onto their shared base commit and reports
+ * conflicts, optionally handing them to a follow-up container
+ */
+
+import chalk from 'chalk';
+import { Command, Option } from 'commander';
+import { ServerApiClient } from '../api-client';
+import {
+  COMBINE_ORDERS,
+  CombineError,
+  PatchCombiner,
+  findOverlaps,
+  orderSources,
+  sourceFromArtifact,
+} from '../combine';
+import type { CombineOrder, CombineResult, CombineSource } from '../combine';
+import {
+  DEFAULT_AUTH_TOKEN,
+  DEFAULT_IMAGE,
+  DEFAULT_SERVER_URL,
+  toContainerUrl,
+} from '../config';
+import { DockerManager } from '../docker';
+import { generateContainerID } from '../ids';
+import { describeChanges } from '../render';
+import { renderTable } from '../table';
+
+export interface CombineCommandOptions {
+  batch?: string;
+  branches: boolean;
+  base?: string;
+  order: CombineOrder;
+  dir: string;
+  branch?: string;
+  resolve: boolean;
+  remote: string;
+  repo?: string;
+  image: string;
+  server: string;
+  containerServer?: string;
+  authToken: string;
+  githubToken?: string;
+  model?: string;
+}
+
+/**
+ * Diff text included in the resolution task, so large conflicts do not
+ * overflow the prompt
+ */
+const MAX_RESOLVE_PATCH_CHARS = 50_000;
+
+/**
+ * Collect the sources to combine: runs' patch artifacts from the server,
+ * or branches in the local repository
+ */
+async function loadSources(
+  names: string[],
+  options: CombineCommandOptions,
+  combiner: PatchCombiner,
+  api: ServerApiClient
+): Promise<CombineSource[]> {
+  if (options.branches) {
+    const base = options.base
+      ? combiner.resolveCommit(options.base)
+      : combiner.mergeBase(names.map((name) => combiner.resolveCommit(name)));
+    return names.map((name) => combiner.sourceFromBranch(name, base));
+  }
+
+  const containerIDs = [...names];
+  if (options.batch) {
+    const runs = await api.listRuns({ batch: options.batch });
+    containerIDs.push(
+      ...runs
+        .filter((run) => run.status === 'completed')
+        .map((run) => run.containerID)
+        .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+    );
+  }
+  if (containerIDs.length === 0) {
+    throw new CombineError('No completed runs to combine');
+  }
+
+  const sources: CombineSource[] = [];
+  for (const containerID of containerIDs) {
+    sources.push(
+      sourceFromArtifact(containerID, await api.getRunPatch(containerID))
+    );
+  }
+  return sources;
+}
+
+/**
+ * The commit every source is applied onto
+ */
+function resolveBase(
+  sources: CombineSource[],
+  options: CombineCommandOptions,
+  combiner: PatchCombiner
+): string {
+  if (options.base) {
+    return combiner.resolveCommit(options.base);
+  }
+
+  const bases = new Set(sources.map((source) => source.baseCommit));
+  if (bases.size > 1) {
+    throw new CombineError(
+      `The runs started from different commits (${Array.from(bases)
+        .map((base) => base.slice(0, 7))
+        .join(', ')}); choose one with --base`
+    );
+  }
+  return combiner.resolveCommit(sources[0].baseCommit);
+}
+
+/**
+ * Print what happened to each source and which files several touched
+ */
+function printReport(
+  results: CombineResult[],
+  overlaps: Map<string, string[]>
+): void {
+  console.log(
+    renderTable(
+      [
+        { header: 'SOURCE', value: (row) => row.source.name },
+        {
+          header: 'CHANGES',
+          value: (row) => describeChanges(row.source.files),
+        },
+        {
+          header: 'RESULT',
+          value: (row) => row.status,
+          style: (row) =>
+            row.status === 'conflict'
+              ? chalk.red
+              : row.status === 'applied'
+                ? chalk.green
+                : chalk.gray,
+        },
+        { header: 'CONFLICTS', value: (row) => row.conflicts.join(', ') },
+      ],
+      results
+    )
+  );
+
+  if (overlaps.size > 0) {
+    console.log();
+    console.log(chalk.bold('Files changed by several runs:'));
+    for (const [file, names] of overlaps) {
+      console.log(`  ${file}  ${chalk.gray(names.join(', '))}`);
+    }
+  }
+}
+
+/**
+ * Task for a follow-up container: integrate the changes that conflicted
+ * with the combined branch
+ */
+function buildResolveTask(branch: string, conflicted: CombineResult[]): string {
+  const lines = [
+    `The branch ${branch} combines the changes of several parallel runs.`,
+    'The changes below could not be applied because they conflict with it.',
+    'Integrate each of them into the current code, keeping the intent of both sides, and make sure the project still builds and its tests pass.',
+  ];
+
+  let budget = MAX_RESOLVE_PATCH_CHARS;
+  for (const result of conflicted) {
+    const patch =
+      result.source.patches.length <= budget
+        ? result.source.patches
+        : `${result.source.patches.slice(0, Math.max(0, budget))}\n[truncated]`;
+    budget -= patch.length;
+
+    lines.push(
+      '',
+      `## ${result.source.name} (conflicts in ${result.conflicts.join(', ')})`,
+      '```diff',
+      patch.trimEnd(),
+      '```'
+    );
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Push the combined branch and launch a container to resolve the
+ * conflicts on top of it
+ */
+async function launchResolution(
+  branch: string,
+  conflicted: CombineResult[],
+  options: CombineCommandOptions,
+  combiner: PatchCombiner,
+  api: ServerApiClient,
+  docker: DockerManager
+): Promise<string> {
+  combiner.push(options.remote, branch);
+
+  const containerID = generateContainerID();
+  // The wrapper's default task timeout plus an hour for setup and reconnects
+  const { token } = await api.mintToken(containerID, 'producer', 90 * 60);
+
+  const env: Record<string, string> = {};
+  if (process.env.ANTHROPIC_API_KEY) {
+    env.ANTHROPIC_API_KEY = process.env.ANTHROPIC_API_KEY;
+  }
+
+  const container = await docker.createWrapperContainer({
+    image: options.image,
+    containerID,
+    repoUrl: options.repo || combiner.remoteUrl(options.remote),
+    task: buildResolveTask(branch, conflicted),
+    wsServer: options.containerServer || toContainerUrl(options.server),
+    wsToken: token,
+    githubToken: options.githubToken,
+    baseRef: branch,
+    model: options.model,
+    env,
+  });
+  try {
+    await docker.startContainer(container);
+  } catch (error) {
+    await docker.removeContainer(container);
+    throw error;
+  }
+  return containerID;
+}
+
+/**
+ * Apply the sources in order onto a new branch at the base commit
+ */
+async function combineAction(
+  names: string[],
+  options: CombineCommandOptions
+): Promise<void> {
+  if (names.length === 0 && !options.batch) {
+    throw new Error('Give the runs or branches to combine, or --batch');
+  }
+  if (options.branches && options.batch) {
+    throw new Error('--batch combines runs, not branches');
+  }
+
+  const api = new ServerApiClient(options.server, options.authToken);
+  const combiner = new PatchCombiner(options.dir);
+  combiner.ensureClean();
+
+  const docker = new DockerManager();
+  if (options.resolve) {
+    await docker.ensureImage(options.image);
+  }
+
+  const sources = orderSources(
+    await loadSources(names, options, combiner, api),
+    options.order
+  );
+  const base = resolveBase(sources, options, combiner);
+  const branch = options.branch || `combined/${generateContainerID()}`;
+
+  combiner.startBranch(branch, base);
+  console.log(
+    `Combining ${sources.length} source(s) onto ${chalk.bold(branch)} at ${base.slice(0, 7)}`
+  );
+  console.log();
+
+  const results = sources.map((source) => combiner.apply(source));
+  printReport(results, findOverlaps(sources));
+
+  const applied = results.filter((result) => result.status === 'applied');
+  const conflicted = results.filter((result) => result.status === 'conflict');
+  console.log();
+  console.log(
+    `Applied ${applied.length} of ${sources.length}; ${conflicted.length} conflicted`
+  );
+
+  if (conflicted.length === 0) {
+    return;
+  }
+
+  if (options.resolve) {
+    const containerID = await launchResolution(
+      branch,
+      conflicted,
+      options,
+      combiner,
+      api,
+      docker
+    );
+    console.log(
+      `Resolving conflicts in ${chalk.bold(containerID)}; follow with: claude-docker logs ${containerID} -f`
+    );
+    return;
+  }
+
+  process.exitCode = 1;
+}
+
+/**
+ * Create the combine command
+ */
+export function createCombineCommand(): Command {
+  return new Command('combine')
+    .description(
+      "Apply several runs' changes onto their base commit and report conflicts"
+    )
+    .argument('[sources...]', 'Container IDs of completed runs, or branches')
+    .option('--batch <batchID>', "Combine a batch's completed runs")
+    .option(
+      '--branches',
+      'Sources are branches in the local repository, not runs',
+      false
+    )
+    .option(
+      '--base <ref>',
+      'Commit to apply onto (default: the base commit of the runs, or the merge base of the branches)'
+    )
+    .addOption(
+      new Option('--order <order>', 'Order the sources are applied in')
+        .choices(COMBINE_ORDERS)
+        .default('given')
+    )
+    .option('--dir <dir>', 'Local repository to combine in', '.')
+    .option(
+      '--branch <name>',
+      'Branch to create for the result (default: combined/<id>)'
+    )
+    .option(
+      '--resolve',
+      'Push the result and launch a container to resolve the conflicts',
+      false
+    )
+    .option('--remote <name>', 'Remote to push to with --resolve', 'origin')
+    .option('--repo <url>', 'Repository URL for the resolution container')
+    .option('--image <image>', 'Wrapper image to run', DEFAULT_IMAGE)
+    .option('--server <url>', 'WebSocket server URL', DEFAULT_SERVER_URL)
+    .option(
+      '--container-server <url>',
+      'WebSocket server URL as seen from inside the container'
+    )
+    .requiredOption(
+      '--auth-token <token>',
+      'WebSocket server admin token (default: $AUTH_TOKEN)',
+      DEFAULT_AUTH_TOKEN
+    )
+    .option(
+      '--github-token <token>',
+      'Token for private repositories',
+      process.env.GITHUB_TOKEN
+    )
+    .option('-m, --model <model>', 'Claude model for the resolution container')
+    .action(combineAction);
+}
@@ -1,2 +1,274 @@
-// TODO: Implement CLI logs command
-// This will handle log streaming from containers via WebSocket
+/**
+ * Logs command
+ * Streams a container's messages from the WebSocket server
+ */
+
+import chalk from 'chalk';
+import { Command, Option } from 'commander';
+import { ServerApiClient } from '../api-client';
+import { DEFAULT_AUTH_TOKEN, DEFAULT_SERVER_URL } from '../config';
+import {
+  LOG_LEVELS,
+  type LogLevel,
+  describeAttempts,
+  describeUsage,
+  describeVerification,
+  formatMessage,
+  formatPhaseTimings,
+  messageLevel,
+  messageText,
+} from '../render';
+import type {
+  CompleteData,
+  Message,
+  ReplayCompleteData,
+  RunRecord,
+} from '../types';
+import { MessageType } from '../types';
+import { LogStreamClient } from '../websocket-client';
+import type { ReplayOptions } from '../websocket-client';
+
+export interface LogsCommandOptions {
+  server: string;
+  authToken: string;
+  follow: boolean;
+  level?: LogLevel;
+  grep?: string;
+  json: boolean;
+  stored: boolean;
+  since?: ReplayOptions;
+}
+
+/**
+ * Parse a --since value: a sequence number or a timestamp/date
+ */
+function parseSince(value: string): ReplayOptions {
+  if (/^\d+$/.test(value)) {
+    return { sinceSeq: Number.parseInt(value, 10) };
+  }
+
+  const sinceTime = new Date(value);
+  if (Number.isNaN(sinceTime.getTime())) {
+    throw new Error(`Expected a sequence number or timestamp, got: ${value}`);
+  }
+  return { sinceTime };
+}
+
+/**
+ * Build a predicate selecting the messages to print
+ */
+export function createLogFilter(
+  options: Pick<LogsCommandOptions, 'level' | 'grep'>
+): (message: Message) => boolean {
+  const minLevel = options.level ? LOG_LEVELS.indexOf(options.level) : 0;
+  const pattern = options.grep ? new RegExp(options.grep, 'i') : null;
+
+  return (message) => {
+    if (
+      message.type === MessageType.HEARTBEAT ||
+      message.type === MessageType.REPLAY_COMPLETE
+    ) {
+      return false;
+    }
+    // Completion is always shown so the exit code is visible
+    if (message.type === MessageType.COMPLETE) {
+      return true;
+    }
+    if (LOG_LEVELS.indexOf(messageLevel(message)) < minLevel) {
+      return false;
+    }
+    return pattern ? pattern.test(messageText(message)) : true;
+  };
+}
+
+/**
+ * Print a message as JSON or formatted text
+ */
+function printMessage(message: Message, json: boolean): void {
+  if (json) {
+    process.stdout.write(`${JSON.stringify(message)}\n`);
+    return;
+  }
+
+  const line = formatMessage(message);
+  if (line) {
+    console.log(line);
+  }
+}
+
+/**
+ * Print a summary of a stored run's metadata
+ */
+function printRunHeader(run: RunRecord): void {
+  const fields: [string, string | undefined][] = [
+    ['Container', run.containerID],
+    ['Repository', run.repoUrl],
+    ['Task', run.task],
+    ['Model', run.model],
+    ['Status', run.status],
+    ['Phases', run.phases ? formatPhaseTimings(run.phases) : undefined],
+    ['Usage', run.usage ? describeUsage(run.usage) : undefined],
+    ['Attempts', run.attempts ? describeAttempts(run.attempts) : undefined],
+    [
+      'Verification',
+      run.verification ? describeVerification(run.verification) : undefined,
+    ],
+    ['Started', run.startedAt],
+    ['Ended', run.endedAt],
+  ];
+
+  for (const [label, value] of fields) {
+    if (value !== undefined) {
+      console.log(`${chalk.bold(`${label}:`.padEnd(12))}${value}`);
+    }
+  }
+  console.log();
+}
+
+/**
+ * Print a finished run's log from the server's run store, resolving with its
+ * exit code if it completed
+ */
+export async function printStoredLogs(
+  containerID: string,
+  options: LogsCommandOptions
+): Promise<number | undefined> {
+  const filter = createLogFilter(options);
+  const api = new ServerApiClient(options.server, options.authToken);
+  const { run, messages } = await api.getRunLogs(
+    containerID,
+    options.since?.sinceSeq ?? options.since?.sinceTime
+  );
+
+  if (!options.json) {
+    printRunHeader(run);
+  }
+
+  for (const message of messages) {
+    if (filter(message)) {
+      printMessage(message, options.json);
+    }
+  }
+
+  return run.exitCode;
+}
+
+/**
+ * Stream a container's messages, resolving with its exit code once it
+ * completes, or undefined if streaming stopped before completion.
+ * Without --follow, streaming stops once the buffered history is replayed.
+ */
+export async function streamLogs(
+  containerID: string,
+  options: LogsCommandOptions
+): Promise<number | undefined> {
+  const filter = createLogFilter(options);
+  const client = new LogStreamClient({
+    serverUrl: options.server,
+    token: options.authToken,
+    containerID,
+    replay: options.since ?? {},
+  });
+
+  return new Promise<number | undefined>((resolve, reject) => {
+    const finish = (exitCode: number | undefined) => {
+      client.disconnect();
+      resolve(exitCode);
+    };
+
+    client.on('message', (message: Message) => {
+      if (filter(message)) {
+        printMessage(message, options.json);
+      }
+
+      if (message.type === MessageType.REPLAY_COMPLETE) {
+        const data = message.data as ReplayCompleteData;
+        if (data.truncated && !options.json) {
+          console.error(
+            chalk.yellow(
+              'Earlier messages were dropped from the server history'
+            )
+          );
+        }
+        if (!options.follow) {
+          finish(undefined);
+        }
+      } else if (message.type === MessageType.COMPLETE) {
+        finish((message.data as CompleteData).exitCode);
+      }
+    });
+
+    client.on('disconnected', () => {
+      reject(new Error(`Connection to ${options.server} closed`));
+    });
+
+    client.on('error', (error: Error) => {
+      if (!options.json) {
+        console.error(chalk.red(`Log stream error: ${error.message}`));
+      }
+    });
+
+    client.connect().catch(reject);
+  });
+}
+
+/**
+ * Print a container's logs and exit with its exit code
+ */
+async function logsAction(
+  containerID: string,
+  options: LogsCommandOptions
+): Promise<void> {
+  if (options.grep) {
+    try {
+      new RegExp(options.grep);
+    } catch {
+      throw new Error(`Invalid --grep pattern: ${options.grep}`);
+    }
+  }
+
+  const exitCode = options.stored
+    ? await printStoredLogs(containerID, options)
+    : await streamLogs(containerID, options);
+  if (exitCode !== undefined) {
+    process.exitCode = exitCode;
+  }
+}
+
+/**
+ * Create the logs command
+ */
+export function createLogsCommand(): Command {
+  return new Command('logs')
+    .description("Stream a container's logs from the WebSocket server")
+    .argument('<containerID>', 'Container ID to stream logs for')
+    .option('--server <url>', 'WebSocket server URL', DEFAULT_SERVER_URL)
+    .requiredOption(
+      '--auth-token <token>',
+      'WebSocket server token (default: $AUTH_TOKEN)',
+      DEFAULT_AUTH_TOKEN
+    )
+    .option(
+      '-f, --follow',
+      'Keep streaming until the container completes',
+      false
+    )
+    .addOption(
+      new Option('-l, --level <level>', 'Minimum level to show').choices(
+        LOG_LEVELS
+      )
+    )
+    .option('-g, --grep <pattern>', 'Only show messages matching a pattern')
+    .option(
+      '--since <seq|time>',
+      'Replay history after a sequence number or from a timestamp',
+      parseSince
+    )
+    .option('--json', 'Print raw messages as newline-delimited JSON', false)
+    .option(
+      '--stored',
+      "Print a finished run's log from the server's run store",
+      false
+    )
+    .action(logsAction);
+}
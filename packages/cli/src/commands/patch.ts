@@ -0,0 +1,126 @@
+/**
+ * Patch command
+ * Downloads the patch artifact exported by a run and optionally applies it
+ */
+
+import { spawnSync } from 'node:child_process';
+import { writeFileSync } from 'node:fs';
+import chalk from 'chalk';
+import { Command, Option } from 'commander';
+import { ServerApiClient } from '../api-client';
+import { DEFAULT_AUTH_TOKEN, DEFAULT_SERVER_URL } from '../config';
+import { describeChanges, formatFileStats } from '../render';
+import type { ArtifactData } from '../types';
+
+export type PatchFormat = 'diff' | 'mbox';
+
+export interface PatchCommandOptions {
+  server: string;
+  authToken: string;
+  format: PatchFormat;
+  output?: string;
+  apply: boolean;
+  dir: string;
+}
+
+/**
+ * Print the per-file stats of a patch to stderr, keeping stdout for the
+ * patch itself
+ */
+function printStats(artifact: ArtifactData): void {
+  console.error(
+    chalk.bold(
+      `${describeChanges(artifact.files)} (${artifact.baseCommit.slice(0, 7)}..${artifact.headCommit.slice(0, 7)})`
+    )
+  );
+  for (const line of formatFileStats(artifact.files)) {
+    console.error(`  ${line}`);
+  }
+}
+
+/**
+ * Apply a patch in a local repository: `git apply` for a diff, `git am`
+ * for a format-patch series so the commits are kept
+ */
+function applyPatch(content: string, format: PatchFormat, dir: string): void {
+  const args = format === 'mbox' ? ['am', '--3way'] : ['apply', '--index'];
+  const result = spawnSync('git', args, {
+    cwd: dir,
+    input: content,
+    stdio: ['pipe', 'inherit', 'inherit'],
+  });
+
+  if (result.error) {
+    throw new Error(`Failed to run git: ${result.error.message}`);
+  }
+  if (result.status !== 0) {
+    throw new Error(`git ${args[0]} failed with exit code ${result.status}`);
+  }
+}
+
+/**
+ * Download a run's patch, then print, save or apply it
+ */
+async function patchAction(
+  containerID: string,
+  options: PatchCommandOptions
+): Promise<void> {
+  const api = new ServerApiClient(options.server, options.authToken);
+  const artifact = await api.getRunPatch(containerID);
+
+  printStats(artifact);
+
+  const content = options.format === 'mbox' ? artifact.patches : artifact.diff;
+  if (artifact.truncated || content === undefined) {
+    throw new Error(
+      'The patch was too large to stream; only the file stats are available'
+    );
+  }
+  if (content === '') {
+    console.error(chalk.yellow('The run made no changes'));
+    return;
+  }
+
+  if (options.output) {
+    writeFileSync(options.output, content);
+    console.error(`Patch written to ${options.output}`);
+  }
+
+  if (options.apply) {
+    applyPatch(content, options.format, options.dir);
+    console.error(chalk.green(`Patch applied in ${options.dir}`));
+  } else if (!options.output) {
+    process.stdout.write(content);
+  }
+}
+
+/**
+ * Create the patch command
+ */
+export function createPatchCommand(): Command {
+  return new Command('patch')
+    .description('Download the changes made by a run as a patch')
+    .argument('<containerID>', 'Container ID of the run')
+    .option('--server <url>', 'WebSocket server URL', DEFAULT_SERVER_URL)
+    .requiredOption(
+      '--auth-token <token>',
+      'WebSocket server token (default: $AUTH_TOKEN)',
+      DEFAULT_AUTH_TOKEN
+    )
+    .addOption(
+      new Option(
+        '--format <format>',
+        'Unified diff, or a format-patch series that keeps the commits'
+      )
+        .choices(['diff', 'mbox'])
+        .default('diff')
+    )
+    .option('-o, --output <file>', 'Write the patch to a file')
+    .option(
+      '--apply',
+      'Apply the patch to a local repository (git apply, or git am for mbox)',
+      false
+    )
+    .option('--dir <dir>', 'Repository to apply the patch in', process.cwd())
+    .action(patchAction);
+}
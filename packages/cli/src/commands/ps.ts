@@ -0,0 +1,198 @@
+/**
+ * Ps command
+ * Lists runs known to the server and the phase each one is in
+ */
+
+import chalk from 'chalk';
+import { Command, Option } from 'commander';
+import { ServerApiClient } from '../api-client';
+import { DEFAULT_AUTH_TOKEN, DEFAULT_SERVER_URL } from '../config';
+import { formatDuration, styleStatus } from '../render';
+import { renderTable } from '../table';
+import type { TableColumn } from '../table';
+import type { RunPhase, RunSummary } from '../types';
+
+const RUN_PHASES: RunPhase[] = [
+  'provisioning',
+  'cloning',
+  'setup',
+  'executing',
+  'verifying',
+  'publishing',
+  'completed',
+  'failed',
+  'cancelled',
+  'timed_out',
+  'budget_exceeded',
+];
+
+const TASK_WIDTH = 50;
+
+export interface PsCommandOptions {
+  server: string;
+  authToken: string;
+  phase?: RunPhase;
+  batch?: string;
+  groupBy?: string;
+  all: boolean;
+  limit: number;
+  json: boolean;
+}
+
+/**
+ * How long a run has been in its current phase, or its total duration once
+ * it has finished
+ */
+function timeInPhase(run: RunSummary, now = Date.now()): string {
+  if (run.endedAt) {
+    return run.duration !== undefined ? formatDuration(run.duration) : '-';
+  }
+  const current = run.phases?.[run.phases.length - 1];
+  return current ? formatDuration(now - Date.parse(current.startedAt)) : '-';
+}
+
+/**
+ * First line of a task, shortened to fit the table
+ */
+function shortTask(task?: string): string {
+  const firstLine = task?.trim().split('\n')[0] ?? '';
+  return firstLine.length > TASK_WIDTH
+    ? `${firstLine.slice(0, TASK_WIDTH - 3)}...`
+    : firstLine;
+}
+
+/**
+ * Template variables a run was expanded with, as name=value pairs
+ */
+function describeVariables(variables?: Record<string, string>): string {
+  return Object.entries(variables ?? {})
+    .map(([name, value]) => `${name}=${value}`)
+    .join(' ');
+}
+
+/**
+ * Render runs as a table, with their template variables when any have them
+ */
+function renderRuns(runs: RunSummary[]): string {
+  const variableColumn: TableColumn<RunSummary>[] = runs.some(
+    (run) => run.variables
+  )
+    ? [
+        {
+          header: 'VARIABLES',
+          value: (run) => describeVariables(run.variables),
+        },
+      ]
+    : [];
+
+  return renderTable(
+    [
+      { header: 'CONTAINER', value: (run) => run.containerID },
+      {
+        header: 'PHASE',
+        value: (run) => run.phase ?? run.status ?? 'unknown',
+        style: (run) => styleStatus(run.phase ?? run.status ?? 'pending'),
+      },
+      { header: 'TIME', value: (run) => timeInPhase(run) },
+      { header: 'LIVE', value: (run) => (run.live ? 'yes' : '-') },
+      ...variableColumn,
+      { header: 'TASK', value: (run) => shortTask(run.task) },
+    ],
+    runs
+  );
+}
+
+/**
+ * Print runs in one table per value of a template variable, each headed by
+ * how many runs ended in each phase
+ */
+function printGroups(runs: RunSummary[], variable: string): void {
+  const groups = new Map<string, RunSummary[]>();
+  for (const run of runs) {
+    const value = run.variables?.[variable] ?? '-';
+    groups.set(value, [...(groups.get(value) ?? []), run]);
+  }
+
+  const values = Array.from(groups.keys()).sort((a, b) =>
+    a.localeCompare(b, undefined, { numeric: true })
+  );
+  for (const [index, value] of values.entries()) {
+    const group = groups.get(value) ?? [];
+    const counts = new Map<string, number>();
+    for (const run of group) {
+      const phase = run.phase ?? run.status ?? 'unknown';
+      counts.set(phase, (counts.get(phase) ?? 0) + 1);
+    }
+
+    if (index > 0) {
+      console.log();
+    }
+    console.log(
+      `${chalk.bold(`${variable}=${value}`)} ${chalk.gray(
+        Array.from(counts, ([phase, count]) => `${count} ${phase}`).join(', ')
+      )}`
+    );
+    console.log(renderRuns(group));
+  }
+}
+
+/**
+ * List runs with their phase; only unfinished runs unless --all
+ */
+async function psAction(options: PsCommandOptions): Promise<void> {
+  const api = new ServerApiClient(options.server, options.authToken);
+  let runs = await api.listRuns({ phase: options.phase, batch: options.batch });
+  if (!options.all && !options.phase && !options.batch) {
+    runs = runs.filter((run) => !run.endedAt);
+  }
+  runs = runs.slice(0, options.limit);
+
+  if (options.json) {
+    process.stdout.write(`${JSON.stringify(runs, null, 2)}\n`);
+    return;
+  }
+
+  if (runs.length === 0) {
+    console.log(chalk.gray(options.all ? 'No runs' : 'No active runs'));
+    return;
+  }
+
+  if (options.groupBy) {
+    printGroups(runs, options.groupBy);
+  } else {
+    console.log(renderRuns(runs));
+  }
+}
+
+/**
+ * Create the ps command
+ */
+export function createPsCommand(): Command {
+  return new Command('ps')
+    .description('List runs and the lifecycle phase each one is in')
+    .option('--server <url>', 'WebSocket server URL', DEFAULT_SERVER_URL)
+    .requiredOption(
+      '--auth-token <token>',
+      'WebSocket server token (default: $AUTH_TOKEN)',
+      DEFAULT_AUTH_TOKEN
+    )
+    .addOption(
+      new Option('--phase <phase>', 'Only runs in this phase').choices(
+        RUN_PHASES
+      )
+    )
+    .option('--batch <batchID>', "Only a batch's runs, finished or not")
+    .option(
+      '--group-by <variable>',
+      'Group runs by the value of a task template variable'
+    )
+    .option('-a, --all', 'Include finished runs', false)
+    .option(
+      '-n, --limit <n>',
+      'Maximum runs to list',
+      (value) => Number.parseInt(value, 10),
+      20
+    )
+    .option('--json', 'Print the runs as JSON', false)
+    .action(psAction);
+}
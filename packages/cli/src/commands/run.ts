@@ -1,2 +1,1138 @@
-// TODO: Implement CLI run command
-// This will handle the docker run command to start containers
+/**
+ * Run command
+ * Launches a docker-wrapper container for a repository and task
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import chalk from 'chalk';
+import { Command, Option } from 'commander';
+import inquirer from 'inquirer';
+import { ServerApiClient } from '../api-client';
+import { BatchRunner, sumUsage } from '../batch';
+import type { BatchTask, BatchTaskResult } from '../batch';
+import {
+  DEFAULT_RANKING,
+  RANK_CRITERIA,
+  isViable,
+  parseRanking,
+  rankCandidates,
+} from '../best-of';
+import type { RankCriterion } from '../best-of';
+import { waitForCompletion } from '../completion';
+import {
+  DEFAULT_AUTH_TOKEN,
+  DEFAULT_IMAGE,
+  DEFAULT_SERVER_URL,
+  toContainerUrl,
+} from '../config';
+import { DockerManager } from '../docker';
+import type { VerifyFailureAction, WrapperContainerOptions } from '../docker';
+import { generateContainerID } from '../ids';
+import {
+  PLANNER_TOOLS,
+  PlanError,
+  buildPlanningTask,
+  buildSubtaskTask,
+  findPlanOverlaps,
+  parsePlan,
+  subtaskName,
+} from '../planner';
+import type { PlannedSubtask } from '../planner';
+import {
+  describeChanges,
+  describeUsage,
+  formatCost,
+  formatFileStats,
+  formatMessage,
+  styleStatus,
+} from '../render';
+import { loadRepoFile, repoName, retryFilePath, writeRepoFile } from '../repos';
+import type { RepoTarget } from '../repos';
+import { renderTable } from '../table';
+import type { TableColumn } from '../table';
+import { renderGraph, resolveDependencies, succeeded } from '../task-graph';
+import { loadTaskFile } from '../tasks';
+import type { TaskSpec } from '../tasks';
+import type { ClaudeEventData, CompleteData, Message } from '../types';
+import { MessageType } from '../types';
+import { LogStreamClient } from '../websocket-client';
+
+export interface RunCommandOptions {
+  repo?: string;
+  repos?: string;
+  task: string[];
+  taskFile?: string;
+  checkout: string;
+  concurrency: number;
+  bestOf?: number;
+  candidateModels?: string[];
+  rankBy: RankCriterion[];
+  plan: boolean;
+  maxSubtasks: number;
+  yes: boolean;
+  image: string;
+  containerId?: string;
+  server: string;
+  containerServer?: string;
+  authToken: string;
+  githubToken?: string;
+  baseRef?: string;
+  depth?: number;
+  filter?: string;
+  submodules: boolean;
+  push: boolean;
+  branch?: string;
+  commitMessage?: string;
+  gitAuthorName?: string;
+  gitAuthorEmail?: string;
+  patch: boolean;
+  timeout?: number;
+  maxCost?: number;
+  setup: string[];
+  autoSetup: boolean;
+  setupTimeout?: number;
+  verify?: string;
+  verifyTimeout?: number;
+  onVerifyFailure?: VerifyFailureAction;
+  fixAttempts?: number;
+  logLevel?: string;
+  workspaceDir?: string;
+  allowedTools?: string;
+  disallowedTools?: string;
+  maxTurns?: string;
+  mcpConfig?: string;
+  systemPrompt?: string;
+  appendSystemPrompt?: string;
+  claudeEnv: string[];
+  fallbackModel?: string;
+  model?: string;
+  env: string[];
+  rm: boolean;
+  follow: boolean;
+}
+
+/**
+ * Collect repeated option values into an array
+ */
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Parse a positive integer option value
+ */
+function parsePositiveInt(value: string): number {
+  const parsed = Number.parseInt(value, 10);
+  if (Number.isNaN(parsed) || parsed <= 0) {
+    throw new Error(`Expected a positive number, got: ${value}`);
+  }
+  return parsed;
+}
+
+/**
+ * Parse a comma-separated list
+ */
+function parseList(value: string): string[] {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item !== '');
+}
+
+/**
+ * Parse a positive amount of US dollars
+ */
+function parseUsd(value: string): number {
+  const parsed = Number.parseFloat(value);
+  if (Number.isNaN(parsed) || parsed <= 0) {
+    throw new Error(`Expected a positive amount in USD, got: ${value}`);
+  }
+  return parsed;
+}
+
+/**
+ * Parse the action to take when verification fails
+ */
+function parseVerifyFailureAction(value: string): VerifyFailureAction {
+  if (value !== 'report' && value !== 'skip-publish' && value !== 'fail') {
+    throw new Error(
+      `Expected one of report, skip-publish or fail, got: ${value}`
+    );
+  }
+  return value;
+}
+
+/**
+ * Parse KEY=VALUE pairs into an environment map
+ */
+function parseEnvPairs(pairs: string[]): Record<string, string> {
+  const env: Record<string, string> = {};
+
+  for (const pair of pairs) {
+    const separatorIndex = pair.indexOf('=');
+    if (separatorIndex <= 0) {
+      throw new Error(
+        `Invalid environment variable, expected KEY=VALUE: ${pair}`
+      );
+    }
+    env[pair.substring(0, separatorIndex)] = pair.substring(separatorIndex + 1);
+  }
+
+  return env;
+}
+
+/**
+ * Read an option value from disk when it names an existing file
+ */
+function readValueOrFile(value?: string): string | undefined {
+  if (value && existsSync(value)) {
+    return readFileSync(value, 'utf8');
+  }
+  return value;
+}
+
+/**
+ * Collect tasks from repeated --task flags and the task file
+ */
+export function resolveTasks(options: RunCommandOptions): TaskSpec[] {
+  const tasks: TaskSpec[] = options.task.map((task) => ({ task }));
+  if (options.taskFile) {
+    tasks.push(...loadTaskFile(options.taskFile, options.checkout));
+  }
+
+  if (tasks.length === 0) {
+    throw new Error('At least one task is required (--task or --task-file)');
+  }
+
+  for (const [index, spec] of tasks.entries()) {
+    if (!spec.repo && !options.repo) {
+      throw new Error(
+        `Task ${spec.name || index + 1} has no repository (--repo or "repo")`
+      );
+    }
+  }
+
+  return tasks;
+}
+
+/**
+ * Lifetime of a container's producer token: the task timeout (wrapper
+ * default 30 minutes) plus an hour for cloning and reconnects
+ */
+function producerTokenTtl(options: RunCommandOptions): number {
+  return Math.ceil((options.timeout ?? 30 * 60 * 1000) / 1000) + 60 * 60;
+}
+
+/**
+ * Build the wrapper container options for a task from the command options
+ */
+export function buildWrapperOptions(
+  options: RunCommandOptions,
+  spec: TaskSpec,
+  containerID: string
+): WrapperContainerOptions {
+  const wsServer = options.containerServer || toContainerUrl(options.server);
+
+  const env = { ...parseEnvPairs(options.env), ...spec.env };
+  const setupCommands = spec.setup ?? options.setup;
+  if (process.env.ANTHROPIC_API_KEY && !env.ANTHROPIC_API_KEY) {
+    env.ANTHROPIC_API_KEY = process.env.ANTHROPIC_API_KEY;
+  }
+
+  return {
+    image: options.image,
+    containerID,
+    repoUrl: spec.repo || options.repo || '',
+    task: spec.task,
+    wsServer,
+    timeout: options.timeout,
+    logLevel: options.logLevel,
+    workspaceDir: options.workspaceDir,
+    githubToken: spec.githubToken ?? options.githubToken,
+    baseRef: spec.baseRef ?? options.baseRef,
+    cloneDepth: options.depth,
+    cloneFilter: options.filter,
+    submodules: options.submodules,
+    pushChanges: options.push,
+    branchName: options.branch,
+    commitMessage: options.commitMessage,
+    gitAuthorName: options.gitAuthorName,
+    gitAuthorEmail: options.gitAuthorEmail,
+    exportPatch: options.patch,
+    allowedTools: spec.allowedTools ?? options.allowedTools,
+    disallowedTools: spec.disallowedTools ?? options.disallowedTools,
+    maxTurns: spec.maxTurns ?? options.maxTurns,
+    mcpConfig: readValueOrFile(options.mcpConfig),
+    systemPrompt: readValueOrFile(options.systemPrompt),
+    appendSystemPrompt: readValueOrFile(options.appendSystemPrompt),
+    claudeEnv:
+      options.claudeEnv.length > 0 ? options.claudeEnv.join('\n') : undefined,
+    fallbackModel: spec.fallbackModel ?? options.fallbackModel,
+    model: spec.model ?? options.model,
+    maxCostUsd: spec.maxCostUsd ?? options.maxCost,
+    setupCommands:
+      setupCommands.length > 0 ? setupCommands.join('\n') : undefined,
+    autoSetup: options.autoSetup,
+    setupTimeout: options.setupTimeout,
+    verifyCommand: spec.verifyCommand ?? options.verify,
+    verifyTimeout: options.verifyTimeout,
+    onVerifyFailure: options.onVerifyFailure,
+    maxFixAttempts: options.fixAttempts,
+    env,
+    autoRemove: options.rm,
+  };
+}
+
+/**
+ * Stream a container's messages until it completes or exits, and resolve
+ * with the run's exit code. When the container exits without its COMPLETE
+ * message arriving, the outcome the server recorded is printed instead.
+ */
+async function followContainer(
+  client: LogStreamClient,
+  api: ServerApiClient,
+  containerID: string,
+  exited: Promise<number>
+): Promise<number> {
+  let printed = false;
+  const completed = new Promise<CompleteData>((resolve) => {
+    client.on('message', (message: Message) => {
+      const line = formatMessage(message);
+      if (line) {
+        console.log(line);
+      }
+      if (message.type === MessageType.COMPLETE) {
+        printed = true;
+        resolve(message.data as CompleteData);
+      }
+    });
+  });
+
+  try {
+    const { data, reported } = await waitForCompletion(
+      api,
+      containerID,
+      completed,
+      exited
+    );
+    if (!reported) {
+      console.error(chalk.yellow(data.message));
+    } else if (!printed) {
+      console.log(
+        formatMessage({
+          type: MessageType.COMPLETE,
+          containerID,
+          timestamp: new Date().toISOString(),
+          data,
+        })
+      );
+    }
+    return data.exitCode;
+  } finally {
+    client.disconnect();
+  }
+}
+
+/**
+ * Launch a single wrapper container and optionally follow its log stream
+ */
+async function runSingle(
+  options: RunCommandOptions,
+  spec: TaskSpec,
+  docker: DockerManager,
+  api: ServerApiClient
+): Promise<void> {
+  const containerID = options.containerId || generateContainerID();
+  const { token } = await api.mintToken(
+    containerID,
+    'producer',
+    producerTokenTtl(options)
+  );
+  const container = await docker.createWrapperContainer({
+    ...buildWrapperOptions(options, spec, containerID),
+    wsToken: token,
+  });
+
+  let client: LogStreamClient | null = null;
+  let started = false;
+  try {
+    if (options.follow) {
+      // Subscribe before starting so the first messages are not missed
+      client = new LogStreamClient({
+        serverUrl: options.server,
+        token: options.authToken,
+        containerID,
+      });
+      client.on('error', (error: Error) => {
+        console.error(chalk.red(`Log stream error: ${error.message}`));
+      });
+      await client.connect();
+    }
+
+    await docker.startContainer(container);
+    started = true;
+  } finally {
+    if (!started) {
+      client?.disconnect();
+      await docker.removeContainer(container);
+    }
+  }
+  console.log(containerID);
+
+  if (client) {
+    const exitCode = await followContainer(
+      client,
+      api,
+      containerID,
+      docker.waitForExit(container)
+    );
+    process.exitCode = exitCode;
+  }
+}
+
+/**
+ * Verification result for the summary table, with the number of attempts
+ * when failures were fed back to Claude
+ */
+function describeVerifyColumn(row: BatchTaskResult): string {
+  const result = row.verification?.passed ? 'passed' : 'failed';
+  const attempts = row.attempts?.length ?? 1;
+  return attempts > 1 ? `${result} (${attempts} attempts)` : result;
+}
+
+/**
+ * Print the final summary table for a batch, with each row's position when
+ * the results are ranked
+ */
+function printSummary(results: BatchTaskResult[], ranked = false): void {
+  const rankColumn: TableColumn<BatchTaskResult>[] = ranked
+    ? [{ header: 'RANK', value: (row) => String(results.indexOf(row) + 1) }]
+    : [];
+  const variables = new Set(
+    results.flatMap((result) => Object.keys(result.variables ?? {}))
+  );
+  const variableColumns: TableColumn<BatchTaskResult>[] = Array.from(
+    variables,
+    (name) => ({
+      header: name.toUpperCase(),
+      value: (row) => row.variables?.[name] ?? '-',
+    })
+  );
+
+  console.log();
+  console.log(
+    renderTable(
+      [
+        ...rankColumn,
+        { header: 'TASK', value: (row) => row.name },
+        ...variableColumns,
+        { header: 'CONTAINER', value: (row) => row.containerID },
+        {
+          header: 'STATUS',
+          value: (row) => row.status,
+          style: (row) => styleStatus(row.status),
+        },
+        { header: 'EXIT', value: (row) => row.exitCode?.toString() ?? '-' },
+        {
+          header: 'CHANGES',
+          value: (row) => (row.files ? describeChanges(row.files) : '-'),
+        },
+        { header: 'BRANCH', value: (row) => row.branch ?? '-' },
+        {
+          header: 'VERIFY',
+          value: (row) => (row.verification ? describeVerifyColumn(row) : '-'),
+        },
+        {
+          header: 'COST',
+          value: (row) => (row.usage ? formatCost(row.usage) : '-'),
+        },
+        {
+          header: 'DURATION',
+          value: (row) =>
+            row.duration !== undefined
+              ? `${Math.round(row.duration / 1000)}s`
+              : '-',
+        },
+        { header: 'MESSAGE', value: (row) => row.message ?? '' },
+      ],
+      results
+    )
+  );
+
+  const usage = sumUsage(results);
+  if (usage) {
+    console.log();
+    console.log(`Total: ${describeUsage(usage)}`);
+  }
+}
+
+/**
+ * Create a runner for a batch's containers that prints each status change
+ */
+function createBatchRunner(
+  options: RunCommandOptions,
+  tasks: BatchTask[],
+  docker: DockerManager,
+  api: ServerApiClient
+): BatchRunner {
+  const runner = new BatchRunner({
+    docker,
+    api,
+    serverUrl: options.server,
+    authToken: options.authToken,
+    concurrency: options.concurrency,
+    tokenTtl: producerTokenTtl(options),
+  });
+
+  const width = Math.max(...tasks.map((task) => task.name.length));
+  runner.on('update', (result: BatchTaskResult) => {
+    const phase = result.phase ?? result.status;
+    const status = styleStatus(result.status)(phase);
+    console.log(
+      `${chalk.bold(result.name.padEnd(width))} ${status} ${result.message ?? ''}`
+    );
+  });
+  runner.on('error', (error: Error, result: BatchTaskResult) => {
+    console.error(chalk.red(`${result.name}: ${error.message}`));
+  });
+
+  return runner;
+}
+
+/**
+ * Print a batch's dependency graph now and again whenever a task finishes
+ * or is skipped
+ */
+function followGraph(
+  runner: BatchRunner,
+  tasks: BatchTask[],
+  edges: number[][]
+): void {
+  const current: BatchTaskResult[] = tasks.map((task) => ({
+    name: task.name,
+    containerID: task.options.containerID,
+    status: 'pending',
+  }));
+  const print = () => {
+    console.log();
+    console.log(renderGraph(current, edges));
+    console.log();
+  };
+
+  runner.on('update', (result: BatchTaskResult) => {
+    const index = current.findIndex(
+      (task) => task.containerID === result.containerID
+    );
+    current[index] = result;
+  });
+  runner.on('done', print);
+  print();
+}
+
+/**
+ * Fan tasks out to one container each and summarise their results
+ */
+async function runBatch(
+  options: RunCommandOptions,
+  specs: TaskSpec[],
+  docker: DockerManager,
+  api: ServerApiClient
+): Promise<BatchTaskResult[]> {
+  const batchID = options.containerId || generateContainerID();
+  const edges = resolveDependencies(specs);
+  const graph = edges.some((dependencies) => dependencies.length > 0);
+  if (graph && !options.push) {
+    throw new Error(
+      'Dependent tasks start on the branches their dependencies push; drop --no-push'
+    );
+  }
+
+  const tasks: BatchTask[] = specs.map((spec, index) => {
+    const containerID = `${batchID}-${index + 1}`;
+    return {
+      name: spec.name || `task-${index + 1}`,
+      options: {
+        ...buildWrapperOptions(options, spec, containerID),
+        batchID,
+        variables: spec.variables,
+      },
+      dependsOn: edges[index],
+    };
+  });
+
+  console.log(
+    `Batch ${chalk.bold(batchID)}: ${tasks.length} tasks, concurrency ${options.concurrency}`
+  );
+
+  const runner = createBatchRunner(options, tasks, docker, api);
+  if (graph) {
+    followGraph(runner, tasks, edges);
+  }
+  const results = await runner.run(tasks);
+  printSummary(results);
+
+  const failed = results.filter(
+    (result) => result.status !== 'completed' || result.exitCode !== 0
+  );
+  if (failed.length > 0) {
+    process.exitCode = 1;
+  }
+  return results;
+}
+
+/**
+ * Run one task in several containers, rank the candidates and show the
+ * winner's patch. The other candidates' branches and patches are kept.
+ */
+async function runBestOf(
+  options: RunCommandOptions,
+  spec: TaskSpec,
+  count: number,
+  docker: DockerManager,
+  api: ServerApiClient
+): Promise<void> {
+  const batchID = options.containerId || generateContainerID();
+  const models = options.candidateModels ?? [];
+  const tasks: BatchTask[] = Array.from({ length: count }, (_, index) => {
+    const containerID = `${batchID}-${index + 1}`;
+    const model = models.length > 0 ? models[index % models.length] : undefined;
+    const wrapperOptions = buildWrapperOptions(options, spec, containerID);
+    return {
+      name: `candidate-${index + 1}${model ? ` (${model})` : ''}`,
+      options: {
+        ...wrapperOptions,
+        model: model ?? wrapperOptions.model,
+        batchID,
+      },
+    };
+  });
+
+  console.log(
+    `Best of ${count} ${chalk.bold(batchID)}: ranked by ${options.rankBy.join(', ')}, concurrency ${options.concurrency}`
+  );
+
+  const results = await createBatchRunner(options, tasks, docker, api).run(
+    tasks
+  );
+  const ranked = rankCandidates(results, options.rankBy);
+  printSummary(ranked, true);
+
+  const [winner] = ranked;
+  if (!winner || !isViable(winner)) {
+    console.error(chalk.red('No candidate completed with changes'));
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log();
+  console.log(
+    `${chalk.green.bold('Winner:')} ${winner.name} ${winner.containerID}${
+      winner.branch ? ` (branch ${winner.branch})` : ''
+    }`
+  );
+
+  try {
+    const artifact = await api.getRunPatch(winner.containerID);
+    for (const line of formatFileStats(artifact.files)) {
+      console.log(`  ${line}`);
+    }
+    if (artifact.diff) {
+      console.log();
+      console.log(artifact.diff);
+    }
+  } catch (error) {
+    console.error(
+      chalk.yellow(
+        `Could not fetch the winner's patch: ${error instanceof Error ? error.message : String(error)}`
+      )
+    );
+  }
+
+  const others = ranked.slice(1).filter(isViable);
+  if (others.length > 0) {
+    console.log('Compare with the other candidates:');
+    for (const other of others) {
+      console.log(`  claude-docker patch ${other.containerID}`);
+    }
+  }
+}
+
+/**
+ * Run the planner container and parse the subtasks from its final reply.
+ * The planner only reads the repository: nothing is set up, verified,
+ * committed or exported.
+ */
+async function requestPlan(
+  options: RunCommandOptions,
+  spec: TaskSpec,
+  batchID: string,
+  docker: DockerManager,
+  api: ServerApiClient
+): Promise<PlannedSubtask[]> {
+  const containerID = `${batchID}-plan`;
+  const task: BatchTask = {
+    name: 'planner',
+    options: {
+      ...buildWrapperOptions(
+        options,
+        { ...spec, task: buildPlanningTask(spec.task, options.maxSubtasks) },
+        containerID
+      ),
+      batchID,
+      pushChanges: false,
+      exportPatch: false,
+      allowedTools: PLANNER_TOOLS,
+      disallowedTools: undefined,
+      setupCommands: undefined,
+      autoSetup: false,
+      verifyCommand: undefined,
+      maxFixAttempts: undefined,
+    },
+  };
+
+  let reply: string | undefined;
+  const runner = createBatchRunner(options, [task], docker, api);
+  runner.on('message', (message: Message) => {
+    if (message.type !== MessageType.CLAUDE_EVENT) {
+      return;
+    }
+    const event = message.data as ClaudeEventData;
+    if (event.kind === 'result' && event.result) {
+      reply = event.result;
+    } else if (event.kind === 'assistant_text') {
+      reply = event.text;
+    }
+  });
+  const [result] = await runner.run([task]);
+
+  if (result.status !== 'completed' || result.exitCode !== 0) {
+    throw new PlanError(
+      `The planner ${result.status}${result.message ? `: ${result.message}` : ''}`
+    );
+  }
+  if (!reply) {
+    throw new PlanError('The planner finished without replying');
+  }
+  return parsePlan(reply);
+}
+
+/**
+ * Print the subtasks and warn about those expected to change the same files
+ */
+function printPlan(plan: PlannedSubtask[]): void {
+  console.log();
+  console.log(chalk.bold(`Plan: ${plan.length} subtasks`));
+  for (const [index, subtask] of plan.entries()) {
+    console.log();
+    console.log(`${chalk.bold(`${index + 1}.`)} ${chalk.bold(subtask.title)}`);
+    console.log(`   ${subtask.task.split('\n').join('\n   ')}`);
+    if (subtask.files.length > 0) {
+      console.log(chalk.gray(`   Files: ${subtask.files.join(', ')}`));
+    }
+  }
+
+  const overlaps = findPlanOverlaps(plan);
+  if (overlaps.length > 0) {
+    console.log();
+    console.log(chalk.yellow.bold('Likely conflicts:'));
+    for (const { subtasks, files } of overlaps) {
+      const [a, b] = subtasks;
+      console.log(
+        chalk.yellow(
+          `  ${a + 1} and ${b + 1} both expect to change ${files.join(', ')}`
+        )
+      );
+    }
+  }
+  console.log();
+}
+
+/**
+ * Ask which subtasks to run; all are selected to begin with
+ */
+export async function approvePlan(
+  plan: PlannedSubtask[]
+): Promise<PlannedSubtask[]> {
+  if (!process.stdin.isTTY) {
+    throw new Error('Approving a plan needs a terminal; pass --yes to run it');
+  }
+
+  const { selected } = await inquirer.prompt<{ selected: number[] }>([
+    {
+      type: 'checkbox',
+      name: 'selected',
+      message: 'Subtasks to run',
+      choices: plan.map((subtask, index) => ({
+        name: `${index + 1}. ${subtask.title}`,
+        value: index,
+        checked: true,
+      })),
+    },
+  ]);
+  return selected.map((index) => plan[index]);
+}
+
+/**
+ * Have Claude split the task into independent subtasks, then run the
+ * approved subtasks as a batch sharing the planner's batch ID
+ */
+async function runPlanned(
+  options: RunCommandOptions,
+  spec: TaskSpec,
+  docker: DockerManager,
+  api: ServerApiClient
+): Promise<void> {
+  const batchID = options.containerId || generateContainerID();
+  console.log(
+    `Planning ${chalk.bold(batchID)}: up to ${options.maxSubtasks} subtasks`
+  );
+
+  const plan = await requestPlan(options, spec, batchID, docker, api);
+  printPlan(plan);
+
+  const approved = options.yes ? plan : await approvePlan(plan);
+  if (approved.length === 0) {
+    console.log('No subtasks selected');
+    return;
+  }
+
+  await runBatch(
+    { ...options, containerId: batchID },
+    approved.map((subtask) => ({
+      ...spec,
+      name: subtaskName(subtask, plan.indexOf(subtask)),
+      task: buildSubtaskTask(spec.task, subtask),
+    })),
+    docker,
+    api
+  );
+}
+
+/**
+ * One task per repository in the --repos file
+ */
+function resolveRepoTasks(
+  options: RunCommandOptions,
+  targets: RepoTarget[]
+): TaskSpec[] {
+  if (options.task.length !== 1 || options.taskFile || options.repo) {
+    throw new Error('--repos applies a single --task across the repositories');
+  }
+  if (options.plan || options.bestOf !== undefined) {
+    throw new Error('--repos cannot be combined with --plan or --best-of');
+  }
+
+  return targets.map((target) => ({
+    name: repoName(target),
+    task: options.task[0],
+    repo: target.url,
+    baseRef: target.baseRef,
+    githubToken: target.token,
+  }));
+}
+
+/**
+ * Quote a command-line argument for a POSIX shell when it needs it
+ */
+function shellQuote(arg: string): string {
+  return /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, "'\\''")}'`;
+}
+
+/**
+ * Flags carrying secrets, with the environment variables they default to
+ */
+const SECRET_FLAGS: Record<string, string> = {
+  '--auth-token': 'AUTH_TOKEN',
+  '--github-token': 'GITHUB_TOKEN',
+};
+
+/**
+ * This command line with --repos pointing at another file. The batch ID is
+ * dropped so the retry gets a new one, and secrets are dropped so they are
+ * not printed; `secrets` lists the environment variables to set instead.
+ */
+function commandWithRepos(file: string): {
+  command: string;
+  secrets: string[];
+} {
+  const args: string[] = [];
+  const secrets: string[] = [];
+  const argv = process.argv.slice(2);
+  for (let i = 0; i < argv.length; i++) {
+    const [flag] = argv[i].split('=', 1);
+    const secret = SECRET_FLAGS[flag];
+    if (flag === '--repos' || flag === '--container-id' || secret) {
+      if (!argv[i].includes('=')) {
+        i++;
+      }
+      if (flag === '--repos') {
+        args.push('--repos', file);
+      }
+      if (secret) {
+        secrets.push(secret);
+      }
+    } else {
+      args.push(argv[i]);
+    }
+  }
+  return {
+    command: ['claude-docker', ...args].map(shellQuote).join(' '),
+    secrets,
+  };
+}
+
+/**
+ * Summarise a multi-repository batch and write the repositories that did
+ * not succeed to a file, with the command that retries them
+ */
+function reportRepos(
+  file: string,
+  targets: RepoTarget[],
+  results: BatchTaskResult[]
+): void {
+  const failed = targets.filter((_, index) => !succeeded(results[index]));
+  const usage = sumUsage(results);
+  console.log(
+    `${targets.length - failed.length} of ${targets.length} repositories succeeded${
+      usage ? `, ${formatCost(usage)} in total` : ''
+    }`
+  );
+  if (failed.length === 0) {
+    return;
+  }
+
+  const retryFile = retryFilePath(file);
+  writeRepoFile(retryFile, failed);
+  console.log();
+  console.log(
+    `${failed.length} failed; their lines are in ${chalk.bold(retryFile)}. Retry them with:`
+  );
+  const { command, secrets } = commandWithRepos(retryFile);
+  console.log(`  ${command}`);
+  if (secrets.length > 0) {
+    console.log(
+      chalk.dim(
+        `Tokens passed as flags are left out; set ${secrets.join(' and ')} in the environment instead.`
+      )
+    );
+  }
+}
+
+/**
+ * Launch wrapper containers for the requested tasks
+ */
+async function runAction(options: RunCommandOptions): Promise<void> {
+  const targets = options.repos ? loadRepoFile(options.repos) : undefined;
+  const specs = targets
+    ? resolveRepoTasks(options, targets)
+    : resolveTasks(options);
+  const docker = new DockerManager();
+  const api = new ServerApiClient(options.server, options.authToken);
+
+  await docker.ensureImage(options.image);
+
+  if (options.repos && targets) {
+    reportRepos(
+      options.repos,
+      targets,
+      await runBatch(options, specs, docker, api)
+    );
+  } else if (options.plan) {
+    if (specs.length !== 1) {
+      throw new Error('--plan splits a single task');
+    }
+    if (options.bestOf !== undefined) {
+      throw new Error('--plan and --best-of cannot be combined');
+    }
+    await runPlanned(options, specs[0], docker, api);
+  } else if (options.bestOf !== undefined) {
+    if (specs.length !== 1) {
+      throw new Error('--best-of runs a single task');
+    }
+    await runBestOf(options, specs[0], options.bestOf, docker, api);
+  } else if (specs.length === 1 && !options.taskFile) {
+    await runSingle(options, specs[0], docker, api);
+  } else {
+    await runBatch(options, specs, docker, api);
+  }
+}
+
+/**
+ * Create the run command
+ */
+export function createRunCommand(): Command {
+  return new Command('run')
+    .description('Run Claude Code tasks in new wrapper containers')
+    .option('-r, --repo <url>', 'Git repository URL to clone')
+    .option(
+      '--repos <file>',
+      'File listing repositories to run the task in, one per line with optional baseRef= and token= overrides'
+    )
+    .option(
+      '-t, --task <task>',
+      'Task description for Claude (repeatable)',
+      collect,
+      []
+    )
+    .option('--task-file <file>', 'YAML or JSON file listing tasks')
+    .option(
+      '--checkout <dir>',
+      'Local checkout that task file matrix globs are matched in',
+      '.'
+    )
+    .option(
+      '-c, --concurrency <n>',
+      'Maximum containers running at once',
+      parsePositiveInt,
+      4
+    )
+    .option(
+      '--best-of <n>',
+      'Run the task in n containers and pick the best result',
+      parsePositiveInt
+    )
+    .option(
+      '--candidate-models <models>',
+      'Comma-separated models assigned to --best-of candidates in turn',
+      parseList
+    )
+    .addOption(
+      new Option(
+        '--rank-by <criteria>',
+        `How --best-of candidates are ranked, from: ${RANK_CRITERIA.join(', ')}`
+      )
+        .argParser(parseRanking)
+        .default(DEFAULT_RANKING, DEFAULT_RANKING.join(','))
+    )
+    .option(
+      '--plan',
+      'Have Claude split the task into subtasks and run them in parallel',
+      false
+    )
+    .option(
+      '--max-subtasks <n>',
+      'Most subtasks a --plan may contain',
+      parsePositiveInt,
+      5
+    )
+    .option('-y, --yes', 'Run the plan without asking for approval', false)
+    .option('--image <image>', 'Wrapper image to run', DEFAULT_IMAGE)
+    .option(
+      '--container-id <id>',
+      'Container ID used for log routing (batch ID prefix for several tasks)'
+    )
+    .option('--server <url>', 'WebSocket server URL', DEFAULT_SERVER_URL)
+    .option(
+      '--container-server <url>',
+      'WebSocket server URL as seen from inside the container'
+    )
+    .requiredOption(
+      '--auth-token <token>',
+      'WebSocket server admin token (default: $AUTH_TOKEN)',
+      DEFAULT_AUTH_TOKEN
+    )
+    .option(
+      '--github-token <token>',
+      'Token for private repositories',
+      process.env.GITHUB_TOKEN
+    )
+    .option(
+      '--base-ref <ref>',
+      'Branch, tag, commit SHA or ref (e.g. refs/pull/123/head) to check out'
+    )
+    .option(
+      '--depth <n>',
+      'Shallow clone with this many commits',
+      parsePositiveInt
+    )
+    .option('--filter <spec>', 'Partial clone filter, e.g. blob:none')
+    .option('--submodules', 'Initialise submodules recursively', false)
+    .option('--no-push', "Don't commit and push Claude's changes")
+    .option(
+      '--branch <template>',
+      'Branch to push changes to; {containerID} is replaced (default: claude/{containerID})'
+    )
+    .option(
+      '--commit-message <template>',
+      'Commit message; {task} and {containerID} are replaced'
+    )
+    .option('--git-author-name <name>', 'Author name for the commit')
+    .option('--git-author-email <email>', 'Author email for the commit')
+    .option('--no-patch', "Don't send the changes to the server as a patch")
+    .option('--timeout <ms>', 'Task timeout in milliseconds', parsePositiveInt)
+    .option(
+      '--max-cost <usd>',
+      'Stop a task once its estimated cost exceeds this many US dollars',
+      parseUsd
+    )
+    .option(
+      '--setup <command>',
+      'Command run before Claude starts, e.g. "pnpm install" (repeatable)',
+      collect,
+      []
+    )
+    .option(
+      '--auto-setup',
+      'Detect install commands from lockfiles when --setup is not given',
+      false
+    )
+    .option(
+      '--setup-timeout <ms>',
+      'Timeout for each setup command in milliseconds',
+      parsePositiveInt
+    )
+    .option(
+      '--verify <command>',
+      'Command run in the workspace after Claude finishes, e.g. "pnpm test"'
+    )
+    .option(
+      '--verify-timeout <ms>',
+      'Verification timeout in milliseconds',
+      parsePositiveInt
+    )
+    .option(
+      '--on-verify-failure <action>',
+      'When verification fails: report, skip-publish or fail (default: report)',
+      parseVerifyFailureAction
+    )
+    .option(
+      '--fix-attempts <n>',
+      'Send failed verification output back to Claude up to this many times',
+      parsePositiveInt
+    )
+    .option('--log-level <level>', 'Wrapper log level')
+    .option('--workspace-dir <dir>', 'Working directory inside the container')
+    .option('--allowed-tools <tools>', 'Comma-separated list of allowed tools')
+    .option(
+      '--disallowed-tools <tools>',
+      'Comma-separated list of disallowed tools'
+    )
+    .option('--max-turns <turns>', 'Maximum conversation turns')
+    .option('--mcp-config <json|file>', 'MCP server configuration')
+    .option('--system-prompt <text|file>', 'Custom system prompt')
+    .option(
+      '--append-system-prompt <text|file>',
+      'Text appended to the system prompt'
+    )
+    .option(
+      '--claude-env <KEY:VALUE>',
+      'Environment variable for Claude (repeatable)',
+      collect,
+      []
+    )
+    .option('--fallback-model <model>', 'Model to use when overloaded')
+    .option('-m, --model <model>', 'Claude model to use')
+    .option(
+      '-e, --env <KEY=VALUE>',
+      'Extra container environment variable (repeatable)',
+      collect,
+      []
+    )
+    .option('--rm', 'Remove the container when it exits', false)
+    .option(
+      '-f, --follow',
+      'Follow the log stream until completion (single task)',
+      false
+    )
+    .action(runAction);
+}
@@ -0,0 +1,159 @@
+/**
+ * Stop command
+ * Asks a running container to stop Claude and publish the work done so far
+ */
+
+import { randomUUID } from 'node:crypto';
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { DEFAULT_AUTH_TOKEN, DEFAULT_SERVER_URL } from '../config';
+import { formatMessage } from '../render';
+import type {
+  CompleteData,
+  ControlAckData,
+  ErrorData,
+  Message,
+} from '../types';
+import { MessageType } from '../types';
+import { LogStreamClient } from '../websocket-client';
+
+export interface StopCommandOptions {
+  server: string;
+  authToken: string;
+  reason?: string;
+  wait: boolean;
+  ackTimeout: number;
+}
+
+/**
+ * Errors the server answers a control request with
+ */
+const CONTROL_ERROR_CODES = ['NOT_CONNECTED', 'FORBIDDEN', 'INVALID_CONTROL'];
+
+/**
+ * Send a CANCEL request, resolving once the container acknowledges it and,
+ * with --wait, once the run completes
+ */
+async function stopAction(
+  containerID: string,
+  options: StopCommandOptions
+): Promise<void> {
+  const requestId = randomUUID();
+  const client = new LogStreamClient({
+    serverUrl: options.server,
+    token: options.authToken,
+    containerID,
+    replay: false,
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    let acknowledged = false;
+
+    const ackTimer = setTimeout(() => {
+      fail(
+        new Error(
+          `No response from ${containerID} within ${options.ackTimeout}s`
+        )
+      );
+    }, options.ackTimeout * 1000);
+
+    const finish = () => {
+      clearTimeout(ackTimer);
+      client.disconnect();
+      resolve();
+    };
+    const fail = (error: Error) => {
+      clearTimeout(ackTimer);
+      client.disconnect();
+      reject(error);
+    };
+
+    client.on('message', (message: Message) => {
+      switch (message.type) {
+        case MessageType.ERROR: {
+          const data = message.data as ErrorData;
+          if (!acknowledged && CONTROL_ERROR_CODES.includes(data.code ?? '')) {
+            fail(new Error(data.error));
+          }
+          return;
+        }
+        case MessageType.CONTROL_ACK: {
+          const data = message.data as ControlAckData;
+          if (data.requestId !== requestId) {
+            return;
+          }
+          if (!data.accepted) {
+            fail(new Error(`Stop rejected: ${data.message}`));
+            return;
+          }
+
+          acknowledged = true;
+          clearTimeout(ackTimer);
+          console.log(chalk.yellow(`Stopping ${containerID}: ${data.message}`));
+          if (!options.wait) {
+            finish();
+          }
+          return;
+        }
+        case MessageType.COMPLETE: {
+          if (!acknowledged) {
+            return;
+          }
+          const line = formatMessage(message);
+          if (line) {
+            console.log(line);
+          }
+          const data = message.data as CompleteData;
+          if (data.outcome !== 'cancelled') {
+            process.exitCode = data.exitCode || 1;
+          }
+          finish();
+          return;
+        }
+        default:
+          return;
+      }
+    });
+
+    client.on('disconnected', () => {
+      fail(new Error(`Connection to ${options.server} closed`));
+    });
+
+    client
+      .connect()
+      .then(() => {
+        client.sendControl({
+          action: 'CANCEL',
+          requestId,
+          reason: options.reason,
+        });
+      })
+      .catch(fail);
+  });
+}
+
+/**
+ * Create the stop command
+ */
+export function createStopCommand(): Command {
+  return new Command('stop')
+    .description(
+      'Stop a running container, keeping and pushing the work done so far'
+    )
+    .argument('<containerID>', 'Container ID of the run to stop')
+    .option('--server <url>', 'WebSocket server URL', DEFAULT_SERVER_URL)
+    .requiredOption(
+      '--auth-token <token>',
+      'WebSocket server token (default: $AUTH_TOKEN)',
+      DEFAULT_AUTH_TOKEN
+    )
+    .option('--reason <text>', 'Reason recorded in the run log')
+    .option('--no-wait', 'Return once the container acknowledges the request')
+    .option(
+      '--ack-timeout <seconds>',
+      'How long to wait for the container to respond',
+      (value) => Number.parseInt(value, 10),
+      10
+    )
+    .action(stopAction);
+}
@@ -0,0 +1,78 @@
+/**
+ * Run completion
+ * Works out how a container's run ended, even when its COMPLETE message
+ * was lost
+ */
+
+import type { ServerApiClient } from './api-client';
+import type { CompleteData, RunOutcome } from './types';
+
+/**
+ * How long to wait for a COMPLETE message still being relayed after the
+ * container has exited, before asking the server for the run's outcome
+ */
+export const COMPLETE_GRACE_MS = 5000;
+
+export interface RunCompletion {
+  data: CompleteData;
+  reported: boolean; // Whether the container or the server reported it
+}
+
+/**
+ * Wait for a run's COMPLETE message or its container's exit, whichever
+ * comes first. A container that exits first may still have its COMPLETE
+ * message in flight, so wait briefly for it, then fall back to the run the
+ * server recorded and finally to the container's exit code.
+ */
+export async function waitForCompletion(
+  api: Pick<ServerApiClient, 'getRun'>,
+  containerID: string,
+  completed: Promise<CompleteData>,
+  exited: Promise<number>,
+  graceMs = COMPLETE_GRACE_MS
+): Promise<RunCompletion> {
+  const first = await Promise.race([
+    completed.then((data) => ({ data })),
+    exited.then((exitCode) => ({ exitCode })),
+  ]);
+  if ('data' in first) {
+    return { data: first.data, reported: true };
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  const data = await Promise.race([
+    completed,
+    new Promise<undefined>((resolve) => {
+      timer = setTimeout(() => resolve(undefined), graceMs);
+    }),
+  ]);
+  clearTimeout(timer);
+  if (data) {
+    return { data, reported: true };
+  }
+
+  const run = await api.getRun(containerID).catch(() => undefined);
+  if (run?.endedAt) {
+    return {
+      data: {
+        exitCode: run.exitCode ?? first.exitCode,
+        outcome: run.status as RunOutcome,
+        duration: run.duration,
+        branch: run.branch,
+        commitSha: run.commitSha,
+        usage: run.usage,
+        verification: run.verification,
+        attempts: run.attempts,
+      },
+      reported: true,
+    };
+  }
+
+  return {
+    data: {
+      exitCode: first.exitCode,
+      message: 'Container exited without reporting completion',
+    },
+    reported: false,
+  };
+}
@@ -0,0 +1,27 @@
+/**
+ * CLI defaults
+ * Resolved from environment variables so they can be set once per shell
+ */
+
+export const DEFAULT_IMAGE =
+  process.env.CLAUDE_DOCKER_IMAGE || 'claude-code-wrapper';
+
+export const DEFAULT_SERVER_URL =
+  process.env.CLAUDE_DOCKER_SERVER || 'ws://localhost:8080';
+
+/**
+ * Server token; there is no built-in default, since it grants admin access
+ */
+export const DEFAULT_AUTH_TOKEN = process.env.AUTH_TOKEN;
+
+/**
+ * Rewrite a server URL so it is reachable from inside a container, where
+ * localhost refers to the container itself
+ */
+export function toContainerUrl(serverUrl: string): string {
+  const url = new URL(serverUrl);
+  if (url.hostname === 'localhost' || url.hostname === '127.0.0.1') {
+    url.hostname = 'host.docker.internal';
+  }
+  return url.toString();
+}
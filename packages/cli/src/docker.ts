@@ -1,2 +1,227 @@
-// TODO: Implement Docker integration
-// This will handle Docker API operations using dockerode
+/**
+ * Docker integration
+ * Creates and manages wrapper containers through the Docker API
+ */
+
+import Docker from 'dockerode';
+
+export const CONTAINER_ID_LABEL = 'claude-docker.container-id';
+export const BATCH_ID_LABEL = 'claude-docker.batch-id';
+
+/**
+ * What the wrapper does when the verification command fails
+ */
+export type VerifyFailureAction = 'report' | 'skip-publish' | 'fail';
+
+export interface WrapperContainerOptions {
+  image: string;
+  containerID: string;
+  repoUrl: string;
+  task: string;
+  wsServer: string;
+  wsToken?: string;
+
+  timeout?: number;
+  logLevel?: string;
+  workspaceDir?: string;
+  githubToken?: string;
+
+  baseRef?: string;
+  cloneDepth?: number;
+  cloneFilter?: string;
+  submodules?: boolean;
+
+  pushChanges?: boolean;
+  branchName?: string;
+  commitMessage?: string;
+  gitAuthorName?: string;
+  gitAuthorEmail?: string;
+  exportPatch?: boolean;
+
+  allowedTools?: string;
+  disallowedTools?: string;
+  maxTurns?: string;
+  mcpConfig?: string;
+  systemPrompt?: string;
+  appendSystemPrompt?: string;
+  claudeEnv?: string;
+  fallbackModel?: string;
+  model?: string;
+  maxCostUsd?: number;
+
+  setupCommands?: string; // One command per line
+  autoSetup?: boolean;
+  setupTimeout?: number;
+
+  verifyCommand?: string;
+  verifyTimeout?: number;
+  onVerifyFailure?: VerifyFailureAction;
+  maxFixAttempts?: number;
+
+  env?: Record<string, string>;
+  autoRemove?: boolean;
+  batchID?: string;
+  variables?: Record<string, string>; // Values a task template was expanded with
+}
+
+export class DockerError extends Error {
+  constructor(message: string) {
+    super(`Docker Error: ${message}`);
+    this.name = 'DockerError';
+  }
+}
+
+/**
+ * Manages wrapper containers on the local Docker daemon
+ */
+export class DockerManager {
+  private docker: Docker;
+
+  /**
+   * Maps container options onto the environment variables read by
+   * docker-wrapper/src/config.ts
+   */
+  private static readonly ENV_MAPPING: Array<
+    [keyof WrapperContainerOptions, string]
+  > = [
+    ['repoUrl', 'REPO_URL'],
+    ['task', 'TASK'],
+    ['wsServer', 'WS_SERVER'],
+    ['wsToken', 'WS_TOKEN'],
+    ['containerID', 'CONTAINER_ID'],
+    ['timeout', 'TIMEOUT'],
+    ['logLevel', 'LOG_LEVEL'],
+    ['workspaceDir', 'WORKSPACE_DIR'],
+    ['githubToken', 'GITHUB_TOKEN'],
+    ['baseRef', 'BASE_REF'],
+    ['cloneDepth', 'CLONE_DEPTH'],
+    ['cloneFilter', 'CLONE_FILTER'],
+    ['submodules', 'SUBMODULES'],
+    ['pushChanges', 'PUSH_CHANGES'],
+    ['branchName', 'BRANCH_NAME'],
+    ['commitMessage', 'COMMIT_MESSAGE'],
+    ['gitAuthorName', 'GIT_AUTHOR_NAME'],
+    ['gitAuthorEmail', 'GIT_AUTHOR_EMAIL'],
+    ['exportPatch', 'EXPORT_PATCH'],
+    ['allowedTools', 'ALLOWED_TOOLS'],
+    ['disallowedTools', 'DISALLOWED_TOOLS'],
+    ['maxTurns', 'MAX_TURNS'],
+    ['mcpConfig', 'MCP_CONFIG'],
+    ['systemPrompt', 'SYSTEM_PROMPT'],
+    ['appendSystemPrompt', 'APPEND_SYSTEM_PROMPT'],
+    ['claudeEnv', 'CLAUDE_ENV'],
+    ['fallbackModel', 'FALLBACK_MODEL'],
+    ['model', 'MODEL'],
+    ['maxCostUsd', 'MAX_COST_USD'],
+    ['setupCommands', 'SETUP_COMMANDS'],
+    ['autoSetup', 'AUTO_SETUP'],
+    ['setupTimeout', 'SETUP_TIMEOUT'],
+    ['verifyCommand', 'VERIFY_COMMAND'],
+    ['verifyTimeout', 'VERIFY_TIMEOUT'],
+    ['onVerifyFailure', 'ON_VERIFY_FAILURE'],
+    ['maxFixAttempts', 'MAX_FIX_ATTEMPTS'],
+    ['batchID', 'BATCH_ID'],
+  ];
+
+  constructor(options?: Docker.DockerOptions) {
+    this.docker = new Docker(options);
+  }
+
+  /**
+   * Build the container environment from the wrapper options
+   */
+  private buildEnv(options: WrapperContainerOptions): string[] {
+    const env: string[] = [];
+
+    for (const [key, name] of DockerManager.ENV_MAPPING) {
+      const value = options[key];
+      if (value !== undefined && value !== '') {
+        env.push(`${name}=${value}`);
+      }
+    }
+
+    if (options.variables) {
+      env.push(`TASK_VARIABLES=${JSON.stringify(options.variables)}`);
+    }
+
+    for (const [name, value] of Object.entries(options.env || {})) {
+      env.push(`${name}=${value}`);
+    }
+
+    return env;
+  }
+
+  /**
+   * Ensure the wrapper image exists locally
+   */
+  public async ensureImage(image: string): Promise<void> {
+    try {
+      await this.docker.getImage(image).inspect();
+    } catch {
+      throw new DockerError(
+        `Image ${image} not found. Build it with: pnpm docker:build`
+      );
+    }
+  }
+
+  /**
+   * Create a wrapper container without starting it
+   */
+  public async createWrapperContainer(
+    options: WrapperContainerOptions
+  ): Promise<Docker.Container> {
+    try {
+      return await this.docker.createContainer({
+        Image: options.image,
+        name: `claude-docker-${options.containerID}`,
+        Env: this.buildEnv(options),
+        Labels: {
+          [CONTAINER_ID_LABEL]: options.containerID,
+          ...(options.batchID ? { [BATCH_ID_LABEL]: options.batchID } : {}),
+        },
+        HostConfig: {
+          AutoRemove: options.autoRemove ?? false,
+          ExtraHosts: ['host.docker.internal:host-gateway'],
+        },
+      });
+    } catch (error) {
+      throw new DockerError(
+        `Failed to create container ${options.containerID}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  /**
+   * Start a previously created container
+   */
+  public async startContainer(container: Docker.Container): Promise<void> {
+    try {
+      await container.start();
+    } catch (error) {
+      throw new DockerError(
+        `Failed to start container ${container.id}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  /**
+   * Remove a container that will not be used, e.g. one created for a run
+   * that failed to start. Errors are ignored: removal only cleans up after
+   * another failure.
+   */
+  public async removeContainer(container: Docker.Container): Promise<void> {
+    try {
+      await container.remove({ force: true });
+    } catch {
+      // Already removed, or the daemon is unreachable
+    }
+  }
+
+  /**
+   * Wait for a container to exit and return its exit code
+   */
+  public async waitForExit(container: Docker.Container): Promise<number> {
+    const result = await container.wait();
+    return result.StatusCode;
+  }
+}
@@ -0,0 +1,11 @@
+/**
+ * Run identifiers
+ * Shared by the commands that launch containers
+ */
+
+/**
+ * Generate a unique container ID for a run
+ */
+export function generateContainerID(): string {
+  return `run-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`;
+}
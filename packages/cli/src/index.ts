@@ -1,4 +1,35 @@
 #!/usr/bin/env node
 
-// TODO: Implement CLI main entry point
-// This will define the CLI commands and handle argument parsing
+/**
+ * Main entry point for the CLI
+ * Defines the claude-docker commands and handles argument parsing
+ */
+
+import chalk from 'chalk';
+import { Command } from 'commander';
+import { createCombineCommand } from './commands/combine';
+import { createLogsCommand } from './commands/logs';
+import { createPatchCommand } from './commands/patch';
+import { createPsCommand } from './commands/ps';
+import { createRunCommand } from './commands/run';
+import { createStopCommand } from './commands/stop';
+
+const program = new Command();
+
+program
+  .name('claude-docker')
+  .description('Run Claude Code tasks in isolated Docker containers')
+  .version('0.0.1');
+
+program.addCommand(createRunCommand());
+program.addCommand(createLogsCommand());
+program.addCommand(createPatchCommand());
+program.addCommand(createPsCommand());
+program.addCommand(createStopCommand());
+program.addCommand(createCombineCommand());
+
+program.parseAsync(process.argv).catch((error: unknown) => {
+  const msg = error instanceof Error ? error.message : String(error);
+  console.error(chalk.red(msg));
+  process.exit(1);
+});
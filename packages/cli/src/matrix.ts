@@ -0,0 +1,198 @@
+/**
+ * Task templates
+ * Expands a task with `{{variable}}` placeholders into one task for each
+ * combination of its matrix's values
+ */
+
+import { spawnSync } from 'node:child_process';
+
+/**
+ * A matrix variable's values: a list, or a glob whose matches in a local
+ * checkout are the values
+ */
+export type MatrixValues = string[] | { glob: string };
+
+export type TaskMatrix = Record<string, MatrixValues>;
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][\w-]*)\s*\}\}/g;
+
+/**
+ * Whether a string contains placeholders
+ */
+export function hasPlaceholders(template: string): boolean {
+  return new RegExp(PLACEHOLDER.source).test(template);
+}
+
+/**
+ * Replace the placeholders in a string with the variables' values
+ */
+export function renderTemplate(
+  template: string,
+  variables: Record<string, string>
+): string {
+  return template.replace(PLACEHOLDER, (_, name: string) => {
+    const value = variables[name];
+    if (value === undefined) {
+      throw new TemplateError(`{{${name}}} is not a matrix variable`);
+    }
+    return value;
+  });
+}
+
+/**
+ * Render the placeholders in every string of a value, including those in
+ * nested arrays and objects
+ */
+function renderValue<T>(value: T, variables: Record<string, string>): T {
+  if (typeof value === 'string') {
+    return renderTemplate(value, variables) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => renderValue(item, variables)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        renderValue(item, variables),
+      ])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Convert a glob to a regular expression over slash-separated paths.
+ * Supports `*`, `**`, `?` and `{a,b}`.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let braces = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      const slash = pattern[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      source += '(?:';
+      braces++;
+    } else if (char === '}' && braces > 0) {
+      source += ')';
+      braces--;
+    } else if (char === ',' && braces > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Files in a checkout that git does not ignore, and the directories that
+ * contain them
+ */
+function listCheckout(checkout: string): { files: string[]; dirs: string[] } {
+  const result = spawnSync(
+    'git',
+    ['ls-files', '-z', '--cached', '--others', '--exclude-standard'],
+    { cwd: checkout, encoding: 'utf8', maxBuffer: 256 * 1024 * 1024 }
+  );
+  if (result.error || result.status !== 0) {
+    throw new TemplateError(
+      `cannot list the files in ${checkout}; globs need a git checkout (--checkout)`
+    );
+  }
+
+  const files = result.stdout.split('\0').filter((file) => file !== '');
+  const dirs = new Set<string>();
+  for (const file of files) {
+    const parts = file.split('/');
+    for (let depth = 1; depth < parts.length; depth++) {
+      dirs.add(parts.slice(0, depth).join('/'));
+    }
+  }
+  return { files, dirs: Array.from(dirs) };
+}
+
+/**
+ * Paths in a checkout matching a glob. A trailing slash matches only
+ * directories.
+ */
+export function expandGlob(pattern: string, checkout: string): string[] {
+  const dirsOnly = pattern.endsWith('/');
+  const regExp = globToRegExp(pattern.replace(/^\.\//, '').replace(/\/+$/, ''));
+  const { files, dirs } = listCheckout(checkout);
+
+  return (dirsOnly ? dirs : [...dirs, ...files])
+    .filter((path) => regExp.test(path))
+    .sort();
+}
+
+/**
+ * Resolve each variable's values, evaluating globs against the checkout
+ */
+export function resolveMatrix(
+  matrix: TaskMatrix,
+  checkout: string
+): Record<string, string[]> {
+  const resolved: Record<string, string[]> = {};
+  for (const [name, values] of Object.entries(matrix)) {
+    resolved[name] = Array.isArray(values)
+      ? values
+      : expandGlob(values.glob, checkout);
+    if (resolved[name].length === 0) {
+      throw new TemplateError(
+        Array.isArray(values)
+          ? `matrix variable "${name}" has no values`
+          : `glob ${values.glob} for "${name}" matches nothing in ${checkout}`
+      );
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Every combination of the variables' values, varying the last variable
+ * fastest
+ */
+export function combinations(
+  values: Record<string, string[]>
+): Record<string, string>[] {
+  return Object.entries(values).reduce<Record<string, string>[]>(
+    (combos, [name, options]) =>
+      combos.flatMap((combo) =>
+        options.map((value) => ({ ...combo, [name]: value }))
+      ),
+    [{}]
+  );
+}
+
+/**
+ * Expand a template into one copy per combination of the matrix's values,
+ * with its placeholders rendered
+ */
+export function expandTemplate<T>(
+  template: T,
+  matrix: TaskMatrix,
+  checkout: string
+): { value: T; variables: Record<string, string> }[] {
+  return combinations(resolveMatrix(matrix, checkout)).map((variables) => ({
+    value: renderValue(template, variables),
+    variables,
+  }));
+}
@@ -0,0 +1,170 @@
+/**
+ * Task planning
+ * Asks Claude to split a large task into independent subtasks that can run
+ * in parallel, and checks the plan for likely conflicts
+ */
+
+export interface PlannedSubtask {
+  title: string;
+  task: string;
+  files: string[]; // Files the planner expects the subtask to change
+}
+
+/**
+ * Two subtasks expected to change the same files
+ */
+export interface PlanOverlap {
+  subtasks: [number, number]; // Indexes into the plan
+  files: string[];
+}
+
+/**
+ * Tools the planner may use: it explores the repository but changes nothing
+ */
+export const PLANNER_TOOLS = 'Read,Glob,Grep,LS';
+
+export class PlanError extends Error {
+  constructor(message: string) {
+    super(`Plan Error: ${message}`);
+    this.name = 'PlanError';
+  }
+}
+
+/**
+ * Prompt for the planner run
+ */
+export function buildPlanningTask(task: string, maxSubtasks: number): string {
+  return [
+    'You are planning work, not doing it. Do not modify any files.',
+    '',
+    `Split the task below into at most ${maxSubtasks} subtasks that separate engineers could complete in parallel, each on their own branch, with as little overlap between them as possible. Explore the repository to find the files each subtask will need to change.`,
+    '',
+    'Reply with only a JSON object in a ```json block, in this shape:',
+    '{"subtasks": [{"title": "Short title", "task": "Complete, self-contained instructions for the subtask", "files": ["path/to/file.ts"]}]}',
+    '',
+    'Task:',
+    task,
+  ].join('\n');
+}
+
+/**
+ * Task sent to the container that works on one subtask
+ */
+export function buildSubtaskTask(
+  goal: string,
+  subtask: PlannedSubtask
+): string {
+  return [
+    subtask.task,
+    '',
+    'This is one part of a larger task that is being worked on in parallel:',
+    goal,
+    '',
+    'Only make the changes this part needs; the other parts are handled separately.',
+  ].join('\n');
+}
+
+/**
+ * The JSON in the planner's reply: the last ```json block, or the outermost
+ * braces when the reply has no code block
+ */
+function extractJson(text: string): string {
+  const blocks = Array.from(text.matchAll(/```(?:json)?\s*\n([\s\S]*?)```/g));
+  if (blocks.length > 0) {
+    return blocks[blocks.length - 1][1];
+  }
+
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    throw new PlanError('The planner did not reply with a JSON plan');
+  }
+  return text.slice(start, end + 1);
+}
+
+/**
+ * Parse and validate the planner's reply
+ */
+export function parsePlan(text: string): PlannedSubtask[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(extractJson(text));
+  } catch (error) {
+    if (error instanceof PlanError) {
+      throw error;
+    }
+    throw new PlanError(`The plan is not valid JSON (${error})`);
+  }
+
+  const subtasks = (parsed as { subtasks?: unknown } | null)?.subtasks;
+  if (!Array.isArray(subtasks) || subtasks.length === 0) {
+    throw new PlanError('The plan does not contain any subtasks');
+  }
+
+  return subtasks.map((entry, index): PlannedSubtask => {
+    const subtask = (entry ?? {}) as Record<string, unknown>;
+    if (typeof subtask.task !== 'string' || subtask.task.trim() === '') {
+      throw new PlanError(`Subtask ${index + 1} is missing "task"`);
+    }
+
+    const files = Array.isArray(subtask.files)
+      ? subtask.files.filter((file): file is string => typeof file === 'string')
+      : [];
+    return {
+      title:
+        typeof subtask.title === 'string' && subtask.title.trim() !== ''
+          ? subtask.title.trim()
+          : `Subtask ${index + 1}`,
+      task: subtask.task.trim(),
+      files,
+    };
+  });
+}
+
+/**
+ * Normalise a planned path for comparison
+ */
+function normalisePath(file: string): string {
+  return file.trim().replace(/^\.\//, '').replace(/\/+$/, '');
+}
+
+/**
+ * Whether two planned paths refer to the same file, or one is a directory
+ * containing the other
+ */
+function pathsOverlap(a: string, b: string): boolean {
+  return a === b || a.startsWith(`${b}/`) || b.startsWith(`${a}/`);
+}
+
+/**
+ * Pairs of subtasks the planner expects to change the same files, which are
+ * likely to conflict when their branches are combined
+ */
+export function findPlanOverlaps(plan: PlannedSubtask[]): PlanOverlap[] {
+  const overlaps: PlanOverlap[] = [];
+  const files = plan.map((subtask) => subtask.files.map(normalisePath));
+
+  for (let i = 0; i < plan.length; i++) {
+    for (let j = i + 1; j < plan.length; j++) {
+      const shared = files[i].filter((a) =>
+        files[j].some((b) => pathsOverlap(a, b))
+      );
+      if (shared.length > 0) {
+        overlaps.push({ subtasks: [i, j], files: shared });
+      }
+    }
+  }
+  return overlaps;
+}
+
+/**
+ * Name for a subtask's container in the batch summary
+ */
+export function subtaskName(subtask: PlannedSubtask, index: number): string {
+  const slug = subtask.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40);
+  return `${index + 1}-${slug || 'subtask'}`;
+}
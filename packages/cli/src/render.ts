@@ -0,0 +1,352 @@
+/**
+ * Terminal rendering for container messages
+ */
+
+import chalk from 'chalk';
+import type { BatchTaskStatus } from './batch';
+import type {
+  ArtifactData,
+  AttemptResult,
+  ClaudeEventData,
+  CompleteData,
+  ControlAckData,
+  ErrorData,
+  FileStat,
+  LogData,
+  Message,
+  PhaseTiming,
+  RunPhase,
+  RunUsage,
+  StatusData,
+  VerificationResult,
+} from './types';
+import { MessageType } from './types';
+
+export type LogLevel = LogData['level'];
+
+export const LOG_LEVELS: LogLevel[] = ['info', 'warn', 'error'];
+
+const SUMMARY_LENGTH = 120;
+
+/**
+ * Input fields that best describe a call to common tools
+ */
+const TOOL_SUMMARY_FIELDS = [
+  'command',
+  'file_path',
+  'path',
+  'pattern',
+  'url',
+  'query',
+  'description',
+];
+
+/**
+ * Shorten text to a single line of at most `length` characters
+ */
+function truncate(text: string, length = SUMMARY_LENGTH): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > length ? `${line.slice(0, length - 1)}…` : line;
+}
+
+/**
+ * One-line summary of a tool call's input
+ */
+export function describeToolInput(input: Record<string, unknown>): string {
+  for (const field of TOOL_SUMMARY_FIELDS) {
+    if (typeof input[field] === 'string') {
+      return truncate(input[field] as string);
+    }
+  }
+  return truncate(JSON.stringify(input));
+}
+
+/**
+ * Totals for a set of file stats, e.g. "3 files, +10 -2"
+ */
+export function describeChanges(files: FileStat[]): string {
+  const added = files.reduce((sum, file) => sum + file.added, 0);
+  const removed = files.reduce((sum, file) => sum + file.removed, 0);
+  return `${files.length} file${files.length === 1 ? '' : 's'}, +${added} -${removed}`;
+}
+
+/**
+ * One line per changed file with coloured added/removed counts
+ */
+export function formatFileStats(files: FileStat[]): string[] {
+  const width = Math.max(0, ...files.map((file) => file.path.length));
+  return files.map((file) => {
+    const counts = file.binary
+      ? chalk.gray('binary')
+      : `${chalk.green(`+${file.added}`)} ${chalk.red(`-${file.removed}`)}`;
+    return `${file.path.padEnd(width)}  ${counts}`;
+  });
+}
+
+/**
+ * Plain text of a Claude event
+ */
+function eventText(event: ClaudeEventData): string {
+  switch (event.kind) {
+    case 'system_init':
+      return `Session started${event.model ? ` with ${event.model}` : ''} (${event.tools.length} tools)`;
+    case 'assistant_text':
+      return event.text;
+    case 'tool_use':
+      return `${event.name} ${describeToolInput(event.input)}`;
+    case 'tool_result': {
+      const lines = event.content.split('\n').length;
+      const status = event.isError ? 'failed' : `${lines} line(s)`;
+      return `${event.toolName ?? 'tool'} ${status}: ${truncate(event.content)}`;
+    }
+    case 'result': {
+      const details = [
+        event.numTurns !== undefined ? `${event.numTurns} turns` : undefined,
+        event.costUsd !== undefined
+          ? `$${event.costUsd.toFixed(4)}`
+          : undefined,
+        event.usage
+          ? `${event.usage.inputTokens} in / ${event.usage.outputTokens} out tokens`
+          : undefined,
+      ].filter((detail) => detail !== undefined);
+      return `Claude finished (${event.subtype})${details.length > 0 ? `: ${details.join(', ')}` : ''}`;
+    }
+  }
+}
+
+/**
+ * Format a duration in ms as a short human-readable string
+ */
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  const minutes = Math.floor(seconds / 60);
+  return minutes < 60
+    ? `${minutes}m${seconds % 60}s`
+    : `${Math.floor(minutes / 60)}h${minutes % 60}m`;
+}
+
+/**
+ * Format a run's cost, marking estimates with a tilde
+ */
+export function formatCost(usage: RunUsage): string {
+  return `${usage.estimated ? '~' : ''}$${usage.costUsd.toFixed(2)}`;
+}
+
+/**
+ * Summarise token usage and cost, e.g. `$0.42, 12 turns, 51200 in / 3300 out tokens`
+ */
+export function describeUsage(usage: RunUsage): string {
+  return `${formatCost(usage)}, ${usage.numTurns} turns, ${usage.inputTokens} in / ${usage.outputTokens} out tokens`;
+}
+
+/**
+ * Summarise a verification result, e.g. `failed (exit 1) in 42s: pnpm test`
+ */
+export function describeVerification(verification: VerificationResult): string {
+  const result = verification.passed
+    ? 'passed'
+    : verification.timedOut
+      ? 'timed out'
+      : `failed (exit ${verification.exitCode})`;
+  return `${result} in ${formatDuration(verification.duration)}: ${verification.command}`;
+}
+
+/**
+ * Summarise each attempt of a run that fed failed verification back to
+ * Claude, e.g. `1: failed $0.40, 2: passed $0.12`
+ */
+export function describeAttempts(attempts: AttemptResult[]): string {
+  return attempts
+    .map((attempt) => {
+      const result = attempt.verification
+        ? attempt.verification.passed
+          ? 'passed'
+          : 'failed'
+        : attempt.outcome;
+      return `${attempt.attempt}: ${result} ${formatCost(attempt.usage)}`;
+    })
+    .join(', ');
+}
+
+/**
+ * Summarise how long each phase of a run took, e.g.
+ * `cloning 3s, executing 2m10s, publishing 4s`. Terminal phases are omitted.
+ */
+export function formatPhaseTimings(phases: PhaseTiming[]): string {
+  return phases
+    .filter((timing) => timing.duration !== undefined)
+    .map((timing) => `${timing.phase} ${formatDuration(timing.duration ?? 0)}`)
+    .join(', ');
+}
+
+/**
+ * Colour a run status or phase for the terminal
+ */
+export function styleStatus(
+  status: BatchTaskStatus | RunPhase
+): (text: string) => string {
+  switch (status) {
+    case 'completed':
+      return chalk.green;
+    case 'failed':
+      return chalk.red;
+    case 'cancelled':
+    case 'timed_out':
+    case 'budget_exceeded':
+      return chalk.yellow;
+    case 'pending':
+    case 'skipped':
+      return chalk.gray;
+    default:
+      return chalk.cyan;
+  }
+}
+
+/**
+ * Severity of a message, used for --level filtering
+ */
+export function messageLevel(message: Message): LogLevel {
+  switch (message.type) {
+    case MessageType.LOG:
+      return (message.data as LogData).level;
+    case MessageType.ERROR:
+      return 'error';
+    case MessageType.CONTROL_ACK:
+      return (message.data as ControlAckData).accepted ? 'info' : 'warn';
+    case MessageType.COMPLETE:
+      return (message.data as CompleteData).exitCode === 0 ? 'info' : 'error';
+    case MessageType.CLAUDE_EVENT: {
+      const event = message.data as ClaudeEventData;
+      if (event.kind === 'result' && event.isError) {
+        return 'error';
+      }
+      return event.kind === 'tool_result' && event.isError ? 'warn' : 'info';
+    }
+    default:
+      return 'info';
+  }
+}
+
+/**
+ * Plain text of a message, used for --grep filtering
+ */
+export function messageText(message: Message): string {
+  switch (message.type) {
+    case MessageType.LOG:
+      return (message.data as LogData).message;
+    case MessageType.STATUS: {
+      const data = message.data as StatusData;
+      return `[${data.phase ?? data.status}] ${data.message || ''}`;
+    }
+    case MessageType.ERROR:
+      return (message.data as ErrorData).error;
+    case MessageType.COMPLETE: {
+      const data = message.data as CompleteData;
+      const branch = data.branch
+        ? ` (pushed ${data.commitSha?.slice(0, 7) ?? ''} to ${data.branch})`
+        : '';
+      const usage = data.usage ? ` [${describeUsage(data.usage)}]` : '';
+      const attempts =
+        data.attempts && data.attempts.length > 1
+          ? ` (attempts ${describeAttempts(data.attempts)})`
+          : '';
+      return `Completed with exit code ${data.exitCode}${data.message ? `: ${data.message}` : ''}${branch}${attempts}${usage}`;
+    }
+    case MessageType.CLAUDE_EVENT:
+      return eventText(message.data as ClaudeEventData);
+    case MessageType.ARTIFACT: {
+      const data = message.data as ArtifactData;
+      return `Patch artifact: ${describeChanges(data.files)}`;
+    }
+    case MessageType.CONTROL_ACK: {
+      const data = message.data as ControlAckData;
+      return `${data.action} ${data.accepted ? 'accepted' : 'rejected'}${data.message ? `: ${data.message}` : ''}`;
+    }
+    default:
+      return '';
+  }
+}
+
+/**
+ * Colour a log line by its level
+ */
+function colourByLevel(level: LogLevel, text: string): string {
+  switch (level) {
+    case 'error':
+      return chalk.red(text);
+    case 'warn':
+      return chalk.yellow(text);
+    default:
+      return text;
+  }
+}
+
+/**
+ * Format a Claude event so turns and tool calls stand out
+ */
+function formatEvent(event: ClaudeEventData, head: string): string {
+  switch (event.kind) {
+    case 'system_init':
+      return `${head} ${chalk.magenta(eventText(event))}`;
+    case 'assistant_text':
+      return `${head} ${chalk.white(event.text.trim())}`;
+    case 'tool_use':
+      return `${head} ${chalk.blue(`→ ${event.name}`)} ${chalk.gray(describeToolInput(event.input))}`;
+    case 'tool_result': {
+      const text = `← ${eventText(event)}`;
+      return `${head} ${event.isError ? chalk.yellow(text) : chalk.gray(text)}`;
+    }
+    case 'result': {
+      const colour = event.isError ? chalk.red : chalk.green;
+      return `${head} ${colour(eventText(event))}`;
+    }
+  }
+}
+
+/**
+ * Format a message for the terminal, or null for messages that are not shown
+ */
+export function formatMessage(
+  message: Message,
+  prefix?: string
+): string | null {
+  const time = chalk.gray(new Date(message.timestamp).toLocaleTimeString());
+  const head = prefix ? `${time} ${chalk.bold(prefix)}` : time;
+
+  switch (message.type) {
+    case MessageType.LOG: {
+      const data = message.data as LogData;
+      return `${head} ${colourByLevel(data.level, data.message)}`;
+    }
+    case MessageType.STATUS: {
+      const data = message.data as StatusData;
+      return `${head} ${chalk.cyan(`[${data.phase ?? data.status}]`)} ${data.message || ''}`;
+    }
+    case MessageType.ERROR: {
+      const data = message.data as ErrorData;
+      const code = data.code ? ` (${data.code})` : '';
+      return `${head} ${chalk.red.bold(`${data.error}${code}`)}`;
+    }
+    case MessageType.COMPLETE: {
+      const data = message.data as CompleteData;
+      const colour = data.exitCode === 0 ? chalk.green : chalk.red;
+      return `${head} ${colour.bold(messageText(message))}`;
+    }
+    case MessageType.CLAUDE_EVENT:
+      return formatEvent(message.data as ClaudeEventData, head);
+    case MessageType.CONTROL_ACK:
+      return `${head} ${colourByLevel(messageLevel(message), messageText(message))}`;
+    case MessageType.ARTIFACT: {
+      const data = message.data as ArtifactData;
+      const files = formatFileStats(data.files).map((line) => `  ${line}`);
+      return [`${head} ${chalk.cyan(messageText(message))}`, ...files].join(
+        '\n'
+      );
+    }
+    default:
+      return null;
+  }
+}
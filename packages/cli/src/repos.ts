@@ -0,0 +1,123 @@
+/**
+ * Repository list loading
+ * Reads the repositories a task is applied across, one per line
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+
+/**
+ * A repository to run the task in, with its own overrides
+ */
+export interface RepoTarget {
+  url: string;
+  baseRef?: string;
+  token?: string; // Token for cloning and pushing, instead of --github-token
+  line: string; // The line as written, for writing the retry file
+}
+
+export class RepoFileError extends Error {
+  constructor(file: string, message: string) {
+    super(`Repository file ${file}: ${message}`);
+    this.name = 'RepoFileError';
+  }
+}
+
+/**
+ * Parse one line: the repository URL, then optional `baseRef=<ref>` and
+ * `token=<token>` overrides. A token starting with `$` is read from that
+ * environment variable, so the file need not contain secrets.
+ */
+function parseLine(file: string, line: string, number: number): RepoTarget {
+  const [url, ...overrides] = line.trim().split(/\s+/);
+  const target: RepoTarget = { url, line: line.trim() };
+
+  for (const override of overrides) {
+    const separatorIndex = override.indexOf('=');
+    const key = override.substring(0, separatorIndex);
+    const value = override.substring(separatorIndex + 1);
+    if (separatorIndex <= 0 || value === '') {
+      throw new RepoFileError(
+        file,
+        `line ${number}: expected KEY=VALUE, got: ${override}`
+      );
+    }
+
+    if (key === 'baseRef') {
+      target.baseRef = value;
+    } else if (key === 'token') {
+      const token = value.startsWith('$')
+        ? process.env[value.substring(1)]
+        : value;
+      if (!token) {
+        throw new RepoFileError(
+          file,
+          `line ${number}: environment variable ${value.substring(1)} is not set`
+        );
+      }
+      target.token = token;
+    } else {
+      throw new RepoFileError(
+        file,
+        `line ${number}: unknown override "${key}", expected baseRef or token`
+      );
+    }
+  }
+
+  return target;
+}
+
+/**
+ * Load repositories from a file with one per line. Blank lines and lines
+ * starting with `#` are ignored.
+ */
+export function loadRepoFile(file: string): RepoTarget[] {
+  let content: string;
+  try {
+    content = readFileSync(file, 'utf8');
+  } catch (error) {
+    throw new RepoFileError(file, `cannot be read (${error})`);
+  }
+
+  const targets = content
+    .split('\n')
+    .map((line, index) => ({ line, number: index + 1 }))
+    .filter(({ line }) => line.trim() !== '' && !line.trim().startsWith('#'))
+    .map(({ line, number }) => parseLine(file, line, number));
+
+  if (targets.length === 0) {
+    throw new RepoFileError(file, 'does not list any repositories');
+  }
+  return targets;
+}
+
+/**
+ * Write repositories back in the same format, e.g. the ones to retry
+ */
+export function writeRepoFile(file: string, targets: RepoTarget[]): void {
+  writeFileSync(file, `${targets.map((target) => target.line).join('\n')}\n`);
+}
+
+/**
+ * Path for the list of repositories to retry, next to the original file.
+ * Retrying a retry file overwrites it.
+ */
+export function retryFilePath(file: string): string {
+  const ext = path.extname(file);
+  const base = file.slice(0, file.length - ext.length).replace(/\.failed$/, '');
+  return `${base}.failed${ext}`;
+}
+
+/**
+ * Short name for a repository: its last path segment without `.git`,
+ * with the base ref when one is set
+ */
+export function repoName(target: RepoTarget): string {
+  const name =
+    target.url
+      .replace(/\/+$/, '')
+      .split(/[/:]/)
+      .pop()
+      ?.replace(/\.git$/, '') || target.url;
+  return target.baseRef ? `${name}@${target.baseRef}` : name;
+}
@@ -0,0 +1,43 @@
+/**
+ * Plain-text table rendering for terminal summaries
+ */
+
+export type CellStyle = (text: string) => string;
+
+export interface TableColumn<Row> {
+  header: string;
+  value: (row: Row) => string;
+  style?: (row: Row) => CellStyle | undefined;
+}
+
+/**
+ * Render rows as an aligned table; styles are applied after padding so
+ * escape codes do not affect column widths
+ */
+export function renderTable<Row>(
+  columns: TableColumn<Row>[],
+  rows: Row[]
+): string {
+  const cells = rows.map((row) => columns.map((column) => column.value(row)));
+  const widths = columns.map((column, index) =>
+    Math.max(column.header.length, ...cells.map((row) => row[index].length))
+  );
+
+  const header = columns
+    .map((column, index) => column.header.padEnd(widths[index]))
+    .join('  ');
+  const separator = widths.map((width) => '-'.repeat(width)).join('  ');
+
+  const lines = rows.map((row, rowIndex) =>
+    columns
+      .map((column, index) => {
+        const text = cells[rowIndex][index].padEnd(widths[index]);
+        const style = column.style?.(row);
+        return style ? style(text) : text;
+      })
+      .join('  ')
+      .trimEnd()
+  );
+
+  return [header.trimEnd(), separator, ...lines].join('\n');
+}
@@ -0,0 +1,174 @@
+/**
+ * Task dependency graphs
+ * Resolves `dependsOn` edges between a batch's tasks and renders the
+ * batch's progress through them
+ */
+
+import type { BatchTaskResult } from './batch';
+import { styleStatus } from './render';
+import { renderTable } from './table';
+import type { TaskSpec } from './tasks';
+
+export class TaskGraphError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TaskGraphError';
+  }
+}
+
+/**
+ * A path of task indexes that leads back to its start, if there is one
+ */
+function findCycle(edges: number[][]): number[] | undefined {
+  const state = edges.map((): 'new' | 'visiting' | 'done' => 'new');
+  const path: number[] = [];
+
+  const visit = (index: number): number[] | undefined => {
+    if (state[index] === 'visiting') {
+      return [...path.slice(path.indexOf(index)), index];
+    }
+    if (state[index] === 'done') {
+      return undefined;
+    }
+
+    state[index] = 'visiting';
+    path.push(index);
+    for (const dependency of edges[index]) {
+      const cycle = visit(dependency);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    path.pop();
+    state[index] = 'done';
+    return undefined;
+  };
+
+  for (const index of edges.keys()) {
+    const cycle = visit(index);
+    if (cycle) {
+      return cycle;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Resolve each task's `dependsOn` names to task indexes, rejecting unknown
+ * or ambiguous names and cycles
+ */
+export function resolveDependencies(specs: TaskSpec[]): number[][] {
+  const indexes = new Map<string, number>();
+  const duplicates = new Set<string>();
+  for (const [index, spec] of specs.entries()) {
+    if (spec.name !== undefined) {
+      if (indexes.has(spec.name)) {
+        duplicates.add(spec.name);
+      }
+      indexes.set(spec.name, index);
+    }
+  }
+
+  const edges = specs.map((spec, index) =>
+    (spec.dependsOn ?? []).map((name) => {
+      const label = spec.name ?? `entry ${index + 1}`;
+      const dependency = indexes.get(name);
+      if (dependency === undefined) {
+        throw new TaskGraphError(`${label} depends on unknown task "${name}"`);
+      }
+      if (duplicates.has(name)) {
+        throw new TaskGraphError(
+          `${label} depends on "${name}", which names several tasks`
+        );
+      }
+      if (dependency === index) {
+        throw new TaskGraphError(`${label} depends on itself`);
+      }
+      return dependency;
+    })
+  );
+
+  const cycle = findCycle(edges);
+  if (cycle) {
+    throw new TaskGraphError(
+      `tasks depend on each other in a cycle: ${cycle
+        .map((index) => specs[index].name)
+        .join(' -> ')}`
+    );
+  }
+  return edges;
+}
+
+/**
+ * Whether a task's dependents may start: it completed, exited cleanly and
+ * did not fail verification
+ */
+export function succeeded(result: BatchTaskResult): boolean {
+  return (
+    result.status === 'completed' &&
+    result.exitCode === 0 &&
+    result.verification?.passed !== false
+  );
+}
+
+/**
+ * Length of the longest chain of dependencies above each task
+ */
+function depths(edges: number[][]): number[] {
+  const memo = new Map<number, number>();
+  const depth = (index: number): number => {
+    const known = memo.get(index);
+    if (known !== undefined) {
+      return known;
+    }
+    const value = Math.max(-1, ...edges[index].map(depth)) + 1;
+    memo.set(index, value);
+    return value;
+  };
+  return edges.map((_, index) => depth(index));
+}
+
+/**
+ * Render a batch's tasks as a graph: each task below its dependencies,
+ * indented by how deep it is, with its progress
+ */
+export function renderGraph(
+  results: BatchTaskResult[],
+  edges: number[][]
+): string {
+  const levels = depths(edges);
+  const order = Array.from(results.keys()).sort(
+    (a, b) => levels[a] - levels[b] || a - b
+  );
+
+  return renderTable(
+    [
+      {
+        header: 'TASK',
+        value: (index) =>
+          levels[index] === 0
+            ? results[index].name
+            : `${'  '.repeat(levels[index] - 1)}└ ${results[index].name}`,
+      },
+      {
+        header: 'STATUS',
+        value: (index) => results[index].phase ?? results[index].status,
+        style: (index) => styleStatus(results[index].status),
+      },
+      {
+        header: 'AFTER',
+        value: (index) =>
+          edges[index].map((dependency) => results[dependency].name).join(', '),
+      },
+      {
+        header: 'BASE',
+        value: (index) => results[index].baseRef ?? '',
+      },
+      {
+        header: 'BRANCH',
+        value: (index) => results[index].branch ?? '',
+      },
+    ],
+    order
+  );
+}
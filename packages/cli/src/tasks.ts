@@ -0,0 +1,248 @@
+/**
+ * Task file loading
+ * Reads batches of tasks from YAML or JSON files
+ */
+
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { TemplateError, expandTemplate, hasPlaceholders } from './matrix';
+import type { TaskMatrix } from './matrix';
+import { TaskGraphError, resolveDependencies } from './task-graph';
+
+/**
+ * A single task in a batch, optionally overriding the command-line options
+ */
+export interface TaskSpec {
+  name?: string;
+  task: string;
+  repo?: string;
+  baseRef?: string;
+  githubToken?: string;
+  model?: string;
+  fallbackModel?: string;
+  maxTurns?: string;
+  allowedTools?: string;
+  disallowedTools?: string;
+  maxCostUsd?: number;
+  setup?: string[];
+  verifyCommand?: string;
+  env?: Record<string, string>;
+  dependsOn?: string[]; // Names of tasks that must complete first
+  variables?: Record<string, string>; // Values a template was expanded with
+}
+
+export class TaskFileError extends Error {
+  constructor(file: string, message: string) {
+    super(`Task file ${file}: ${message}`);
+    this.name = 'TaskFileError';
+  }
+}
+
+/**
+ * Normalise a raw task entry, which may be a plain string or an object
+ */
+function toTaskSpec(file: string, entry: unknown, index: number): TaskSpec {
+  if (typeof entry === 'string') {
+    return { task: entry };
+  }
+
+  if (!entry || typeof entry !== 'object') {
+    throw new TaskFileError(file, `entry ${index + 1} is not a task`);
+  }
+
+  const raw = entry as Record<string, unknown>;
+  if (typeof raw.task !== 'string' || raw.task.trim() === '') {
+    throw new TaskFileError(file, `entry ${index + 1} is missing "task"`);
+  }
+
+  const invalid = (field: string) =>
+    new TaskFileError(file, `entry ${index + 1} has an invalid "${field}"`);
+  const optionalString = (field: string): string | undefined => {
+    const value = raw[field];
+    if (value !== undefined && typeof value !== 'string') {
+      throw invalid(field);
+    }
+    return value;
+  };
+  // A single string is accepted for a list of one
+  const optionalList = (field: string): string[] | undefined => {
+    const value = typeof raw[field] === 'string' ? [raw[field]] : raw[field];
+    if (
+      value !== undefined &&
+      !(Array.isArray(value) && value.every((item) => typeof item === 'string'))
+    ) {
+      throw invalid(field);
+    }
+    return value;
+  };
+
+  const maxTurns =
+    typeof raw.maxTurns === 'number' ? String(raw.maxTurns) : raw.maxTurns;
+  if (maxTurns !== undefined && typeof maxTurns !== 'string') {
+    throw invalid('maxTurns');
+  }
+
+  const { maxCostUsd } = raw;
+  if (
+    maxCostUsd !== undefined &&
+    !(typeof maxCostUsd === 'number' && maxCostUsd > 0)
+  ) {
+    throw invalid('maxCostUsd');
+  }
+
+  let env: Record<string, string> | undefined;
+  if (raw.env !== undefined) {
+    if (!raw.env || typeof raw.env !== 'object' || Array.isArray(raw.env)) {
+      throw invalid('env');
+    }
+    env = {};
+    for (const [name, value] of Object.entries(raw.env)) {
+      if (!['string', 'number', 'boolean'].includes(typeof value)) {
+        throw invalid('env');
+      }
+      env[name] = String(value);
+    }
+  }
+
+  return {
+    name: optionalString('name'),
+    task: raw.task,
+    repo: optionalString('repo'),
+    baseRef: optionalString('baseRef'),
+    githubToken: optionalString('githubToken'),
+    model: optionalString('model'),
+    fallbackModel: optionalString('fallbackModel'),
+    maxTurns,
+    allowedTools: optionalString('allowedTools'),
+    disallowedTools: optionalString('disallowedTools'),
+    maxCostUsd,
+    setup: optionalList('setup'),
+    verifyCommand: optionalString('verifyCommand'),
+    env,
+    dependsOn: optionalList('dependsOn'),
+  };
+}
+
+/**
+ * Check that a raw `matrix` maps variable names to lists of strings or
+ * `{ glob }` objects
+ */
+function toMatrix(file: string, matrix: unknown, index: number): TaskMatrix {
+  const invalid = () =>
+    new TaskFileError(file, `entry ${index + 1} has an invalid "matrix"`);
+  if (!matrix || typeof matrix !== 'object' || Array.isArray(matrix)) {
+    throw invalid();
+  }
+
+  for (const values of Object.values(matrix)) {
+    const valid = Array.isArray(values)
+      ? values.every((value) => typeof value === 'string')
+      : typeof (values as { glob?: unknown } | null)?.glob === 'string';
+    if (!valid) {
+      throw invalid();
+    }
+  }
+  if (Object.keys(matrix).length === 0) {
+    throw invalid();
+  }
+  return matrix as TaskMatrix;
+}
+
+/**
+ * Expand a raw entry with a `matrix` into one task per combination of its
+ * values. Unless the name has placeholders, each task's name is suffixed
+ * with its values so the names stay distinct.
+ */
+function expandEntry(
+  file: string,
+  entry: unknown,
+  index: number,
+  checkout: string
+): TaskSpec[] {
+  const raw = entry as Record<string, unknown> | null;
+  if (!raw || typeof raw !== 'object' || raw.matrix === undefined) {
+    return [toTaskSpec(file, entry, index)];
+  }
+
+  const { matrix, ...template } = raw;
+  let expanded: {
+    value: Record<string, unknown>;
+    variables: Record<string, string>;
+  }[];
+  try {
+    expanded = expandTemplate(
+      template,
+      toMatrix(file, matrix, index),
+      checkout
+    );
+  } catch (error) {
+    if (error instanceof TemplateError) {
+      throw new TaskFileError(file, `entry ${index + 1}: ${error.message}`);
+    }
+    throw error;
+  }
+
+  return expanded.map(({ value, variables }) => {
+    const spec = toTaskSpec(file, value, index);
+    const suffix = Object.values(variables).join(', ');
+    const templatedName =
+      typeof template.name === 'string' && hasPlaceholders(template.name);
+    return {
+      ...spec,
+      name: templatedName
+        ? spec.name
+        : spec.name
+          ? `${spec.name} (${suffix})`
+          : suffix,
+      variables,
+    };
+  });
+}
+
+/**
+ * Load tasks from a YAML or JSON file
+ *
+ * The file may contain either a list of tasks or an object with a `tasks`
+ * list. Each task is a string or an object with at least a `task` field.
+ * A task with a `matrix` is a template, expanded into one task for each
+ * combination of the matrix's values; globs in the matrix are matched
+ * against the files in `checkout`.
+ */
+export function loadTaskFile(file: string, checkout = '.'): TaskSpec[] {
+  let content: string;
+  try {
+    content = readFileSync(file, 'utf8');
+  } catch (error) {
+    throw new TaskFileError(file, `cannot be read (${error})`);
+  }
+
+  let parsed: unknown;
+  try {
+    const ext = path.extname(file).toLowerCase();
+    parsed = ext === '.json' ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw new TaskFileError(file, `cannot be parsed (${error})`);
+  }
+
+  const entries = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { tasks?: unknown } | null)?.tasks;
+
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new TaskFileError(file, 'does not contain any tasks');
+  }
+
+  const specs = entries.flatMap((entry, index) =>
+    expandEntry(file, entry, index, checkout)
+  );
+  try {
+    resolveDependencies(specs);
+  } catch (error) {
+    if (error instanceof TaskGraphError) {
+      throw new TaskFileError(file, error.message);
+    }
+    throw error;
+  }
+  return specs;
+}
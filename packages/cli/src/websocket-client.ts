@@ -1,2 +1,189 @@
-// TODO: Implement WebSocket client
-// This will connect to the WebSocket server to receive log streams
+/**
+ * WebSocket client
+ * Connects to the WebSocket server to receive a container's log stream
+ */
+
+import { EventEmitter } from 'node:events';
+import WebSocket from 'ws';
+import type { ControlData, HeartbeatData, Message } from './types';
+import { MessageType } from './types';
+
+export interface ReplayOptions {
+  sinceSeq?: number;
+  sinceTime?: Date;
+}
+
+export interface LogStreamClientOptions {
+  serverUrl: string;
+  token: string;
+  containerID: string;
+  replay?: ReplayOptions | false;
+  heartbeatInterval?: number;
+}
+
+/**
+ * Subscribes to a single container's messages on the WebSocket server
+ */
+export class LogStreamClient extends EventEmitter {
+  private ws: WebSocket | null = null;
+  private serverUrl: string;
+  private token: string;
+  private containerID: string;
+  private replay: ReplayOptions | false;
+  private heartbeatInterval: number;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+
+  constructor(options: LogStreamClientOptions) {
+    super();
+    this.serverUrl = options.serverUrl;
+    this.token = options.token;
+    this.containerID = options.containerID;
+    this.replay = options.replay ?? {};
+    this.heartbeatInterval = options.heartbeatInterval || 15000;
+  }
+
+  /**
+   * Build the subscription URL for the container, including the point to
+   * replay history from
+   */
+  private buildUrl(): string {
+    const url = new URL(this.serverUrl);
+    url.searchParams.set('role', 'viewer');
+    url.searchParams.set('containerID', this.containerID);
+
+    if (this.replay === false) {
+      url.searchParams.set('replay', 'false');
+    } else {
+      if (this.replay.sinceSeq !== undefined) {
+        url.searchParams.set('sinceSeq', this.replay.sinceSeq.toString());
+      }
+      if (this.replay.sinceTime !== undefined) {
+        url.searchParams.set('sinceTime', this.replay.sinceTime.toISOString());
+      }
+    }
+
+    return url.toString();
+  }
+
+  /**
+   * Connect to the WebSocket server
+   */
+  public async connect(): Promise<void> {
+    if (this.ws) {
+      this.disconnect();
+    }
+
+    return new Promise((resolve, reject) => {
+      // The token goes in a header so it stays out of server access logs
+      const ws = new WebSocket(this.buildUrl(), {
+        headers: { Authorization: `Bearer ${this.token}` },
+      });
+      this.ws = ws;
+
+      ws.once('open', () => {
+        this.startHeartbeat();
+        this.emit('connected');
+        resolve();
+      });
+
+      ws.on('message', (data: WebSocket.RawData) => {
+        try {
+          const message = JSON.parse(data.toString()) as Message;
+          this.emit('message', message);
+        } catch (err) {
+          this.emit(
+            'error',
+            new Error(`Failed to parse WebSocket message: ${err}`)
+          );
+        }
+      });
+
+      ws.on('close', (code, reason) => {
+        this.stopHeartbeat();
+        this.ws = null;
+        this.emit('disconnected', { code, reason: reason.toString() });
+      });
+
+      ws.on('error', (err: Error) => {
+        if (ws.readyState === WebSocket.CONNECTING) {
+          reject(err);
+          return;
+        }
+        this.emit('error', err);
+      });
+    });
+  }
+
+  /**
+   * Send a control request to the container; the server routes it to the
+   * container's producer
+   */
+  public sendControl(control: ControlData): void {
+    if (this.ws?.readyState !== WebSocket.OPEN) {
+      throw new Error('Not connected to the WebSocket server');
+    }
+
+    const message: Message = {
+      type: MessageType.CONTROL,
+      containerID: this.containerID,
+      timestamp: new Date().toISOString(),
+      data: control,
+    };
+    this.ws.send(JSON.stringify(message));
+  }
+
+  /**
+   * Keep the subscription alive; the server drops viewers that stop sending
+   * heartbeats
+   */
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+
+    this.heartbeatTimer = setInterval(() => {
+      if (this.ws?.readyState !== WebSocket.OPEN) {
+        return;
+      }
+
+      const heartbeat: Message = {
+        type: MessageType.HEARTBEAT,
+        containerID: this.containerID,
+        timestamp: new Date().toISOString(),
+        data: {
+          timestamp: new Date().toISOString(),
+        } as HeartbeatData,
+      };
+
+      this.ws.send(JSON.stringify(heartbeat));
+    }, this.heartbeatInterval);
+  }
+
+  /**
+   * Stop sending heartbeats
+   */
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  /**
+   * Disconnect from the WebSocket server
+   */
+  public disconnect(): void {
+    this.stopHeartbeat();
+
+    if (this.ws) {
+      const ws = this.ws;
+      this.ws = null;
+      ws.removeAllListeners();
+      ws.on('error', () => {});
+
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.close();
+      } else if (ws.readyState === WebSocket.CONNECTING) {
+        ws.terminate();
+      }
+    }
+  }
+}
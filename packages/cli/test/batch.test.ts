@@ -0,0 +1,163 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { BatchRunner } from '../src/batch';
+import type {
+  BatchRunnerOptions,
+  BatchTask,
+  BatchTaskResult,
+} from '../src/batch';
+
+type Outcome = Partial<BatchTaskResult> & { reported?: boolean };
+
+/**
+ * A runner whose tasks finish with the given outcomes instead of launching
+ * containers. Records the base ref each task was started on.
+ */
+function fakeRunner(outcomes: Record<string, Outcome>) {
+  const runner = new BatchRunner({ concurrency: 2 } as BatchRunnerOptions);
+  const started: Record<string, string | undefined> = {};
+
+  vi.spyOn(
+    BatchRunner.prototype as unknown as {
+      runTask: (task: BatchTask, result: BatchTaskResult) => Promise<boolean>;
+    },
+    'runTask'
+  ).mockImplementation(async (task, result) => {
+    started[task.name] = task.options.baseRef;
+    const { reported = true, ...outcome } = outcomes[task.name] ?? {};
+    Object.assign(result, { status: 'completed', exitCode: 0, ...outcome });
+    return reported;
+  });
+
+  return { runner, started };
+}
+
+function task(name: string, dependsOn?: number[]): BatchTask {
+  return {
+    name,
+    options: { containerID: `batch-${name}` } as BatchTask['options'],
+    dependsOn,
+  };
+}
+
+describe('BatchRunner task graphs', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('starts each task on the branch its dependency pushed', async () => {
+    const { runner, started } = fakeRunner({
+      schema: { branch: 'claude/schema' },
+      clients: { branch: 'claude/clients' },
+    });
+
+    const results = await runner.run([
+      task('schema'),
+      task('clients', [0]),
+      task('docs', [1]),
+    ]);
+
+    expect(started).toEqual({
+      schema: undefined,
+      clients: 'claude/schema',
+      docs: 'claude/clients',
+    });
+    expect(results.map((result) => result.status)).toEqual([
+      'completed',
+      'completed',
+      'completed',
+    ]);
+  });
+
+  it('keeps the base of a dependency that pushed nothing', async () => {
+    const { runner, started } = fakeRunner({
+      schema: { branch: 'claude/schema' },
+    });
+
+    await runner.run([task('schema'), task('lint', [0]), task('docs', [1])]);
+
+    expect(started.docs).toBe('claude/schema');
+  });
+
+  it('skips every task downstream of a failure', async () => {
+    const { runner, started } = fakeRunner({
+      schema: { status: 'failed', exitCode: 1 },
+    });
+
+    const results = await runner.run([
+      task('schema'),
+      task('clients', [0]),
+      task('docs', [1]),
+      task('unrelated'),
+    ]);
+
+    expect(Object.keys(started).sort()).toEqual(['schema', 'unrelated']);
+    expect(results.map((result) => result.status)).toEqual([
+      'failed',
+      'skipped',
+      'skipped',
+      'completed',
+    ]);
+    expect(results[1].message).toBe(
+      'Skipped: schema did not complete successfully'
+    );
+    expect(results[2].message).toBe(
+      'Skipped: clients did not complete successfully'
+    );
+  });
+
+  it('skips the dependents of a task stopped at its budget', async () => {
+    const { runner } = fakeRunner({
+      schema: {
+        status: 'budget_exceeded',
+        exitCode: 1,
+        branch: 'claude/schema',
+      },
+    });
+
+    const results = await runner.run([task('schema'), task('clients', [0])]);
+
+    expect(results[0].branch).toBe('claude/schema');
+    expect(results[1].status).toBe('skipped');
+    expect(results[1].message).toBe(
+      'Skipped: schema stopped at its cost budget'
+    );
+  });
+
+  it('skips the dependents of a task whose completion was not reported', async () => {
+    const { runner, started } = fakeRunner({
+      schema: { reported: false },
+    });
+
+    const results = await runner.run([task('schema'), task('clients', [0])]);
+
+    expect(started.clients).toBeUndefined();
+    expect(results[1].status).toBe('skipped');
+  });
+
+  it('skips a task whose dependencies pushed separate branches', async () => {
+    const { runner } = fakeRunner({
+      api: { branch: 'claude/api' },
+      ui: { branch: 'claude/ui' },
+    });
+
+    const results = await runner.run([
+      task('api'),
+      task('ui'),
+      task('docs', [0, 1]),
+    ]);
+
+    expect(results[2].status).toBe('skipped');
+    expect(results[2].message).toContain('pushed separate branches');
+  });
+
+  it('emits done for skipped tasks', async () => {
+    const { runner } = fakeRunner({ schema: { status: 'failed' } });
+    const done = vi.fn();
+    runner.on('done', done);
+
+    await runner.run([task('schema'), task('clients', [0])]);
+
+    expect(done).toHaveBeenCalledTimes(1);
+    expect(done.mock.calls[0][0].name).toBe('clients');
+  });
+});
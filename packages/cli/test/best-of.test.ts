@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import type { BatchTaskResult } from '../src/batch';
+import { isViable, parseRanking, rankCandidates } from '../src/best-of';
+import type { RunUsage } from '../src/types';
+
+function candidate(
+  name: string,
+  changes: Partial<BatchTaskResult> = {}
+): BatchTaskResult {
+  return {
+    name,
+    containerID: `best-of-${name}`,
+    status: 'completed',
+    exitCode: 0,
+    files: [{ path: 'src/index.ts', added: 10, removed: 2, binary: false }],
+    ...changes,
+  };
+}
+
+const passed = { command: 'pnpm test', exitCode: 0, duration: 1, passed: true };
+const failed = { ...passed, exitCode: 1, passed: false };
+
+function usage(costUsd: number): RunUsage {
+  return {
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: 0,
+    costUsd,
+    numTurns: 1,
+  };
+}
+
+const names = (results: BatchTaskResult[]) =>
+  results.map((result) => result.name);
+
+describe('parseRanking', () => {
+  it('parses a comma-separated list', () => {
+    expect(parseRanking('cost, duration')).toEqual(['cost', 'duration']);
+  });
+
+  it('rejects unknown and empty rankings', () => {
+    expect(() => parseRanking('cost,speed')).toThrow(
+      'Unknown ranking criterion "speed"'
+    );
+    expect(() => parseRanking(' , ')).toThrow(
+      'At least one ranking criterion is required'
+    );
+  });
+});
+
+describe('isViable', () => {
+  it('requires a clean completion with changes', () => {
+    expect(isViable(candidate('a'))).toBe(true);
+    expect(isViable(candidate('a', { exitCode: 1 }))).toBe(false);
+    expect(isViable(candidate('a', { status: 'budget_exceeded' }))).toBe(false);
+    expect(isViable(candidate('a', { files: [] }))).toBe(false);
+    expect(isViable(candidate('a', { files: undefined }))).toBe(false);
+  });
+});
+
+describe('rankCandidates', () => {
+  it('puts viable candidates first', () => {
+    const ranked = rankCandidates([
+      candidate('failed', { status: 'failed', verification: passed }),
+      candidate('empty', { files: [], verification: passed }),
+      candidate('viable', { verification: failed }),
+    ]);
+
+    expect(names(ranked)[0]).toBe('viable');
+  });
+
+  it('prefers passing verification, then no verification', () => {
+    const ranked = rankCandidates([
+      candidate('failed', { verification: failed }),
+      candidate('unverified'),
+      candidate('passed', { verification: passed }),
+    ]);
+
+    expect(names(ranked)).toEqual(['passed', 'unverified', 'failed']);
+  });
+
+  it('breaks ties with the next criterion', () => {
+    const small = [{ path: 'a.ts', added: 1, removed: 0, binary: false }];
+    const ranked = rankCandidates([
+      candidate('large-cheap', { usage: usage(0.1) }),
+      candidate('small-expensive', { files: small, usage: usage(0.5) }),
+      candidate('small-cheap', { files: small, usage: usage(0.2) }),
+    ]);
+
+    expect(names(ranked)).toEqual([
+      'small-cheap',
+      'small-expensive',
+      'large-cheap',
+    ]);
+  });
+
+  it('ranks by the given criteria only', () => {
+    const ranked = rankCandidates(
+      [
+        candidate('slow', { duration: 2000, verification: passed }),
+        candidate('fast', { duration: 1000, verification: failed }),
+      ],
+      ['duration']
+    );
+
+    expect(names(ranked)).toEqual(['fast', 'slow']);
+  });
+
+  it('ranks candidates without a measurement last', () => {
+    const ranked = rankCandidates(
+      [candidate('unknown'), candidate('known', { usage: usage(3) })],
+      ['cost']
+    );
+
+    expect(names(ranked)).toEqual(['known', 'unknown']);
+  });
+
+  it('keeps the order of candidates that tie', () => {
+    const ranked = rankCandidates(
+      [candidate('first'), candidate('second')],
+      ['cost', 'duration']
+    );
+
+    expect(names(ranked)).toEqual(['first', 'second']);
+  });
+});
@@ -0,0 +1,45 @@
+import { execFileSync } from 'node:child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { PatchCombiner } from '../src/combine';
+
+describe('PatchCombiner.sourceFromBranch', () => {
+  let dir: string;
+  const git = (...args: string[]) =>
+    execFileSync('git', args, { cwd: dir, encoding: 'utf8' }).trim();
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'combine-'));
+    git('init', '-q', '-b', 'main');
+    git('config', 'user.email', 'test@example.com');
+    git('config', 'user.name', 'Test');
+    writeFileSync(path.join(dir, 'old.ts'), 'export const a = 1;\n'.repeat(20));
+    writeFileSync(path.join(dir, 'keep.ts'), 'export const b = 1;\n');
+    git('add', '.');
+    git('commit', '-q', '-m', 'base');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('lists a renamed file as a deletion and an addition', () => {
+    const base = git('rev-parse', 'HEAD');
+    git('checkout', '-q', '-b', 'feature');
+    git('mv', 'old.ts', 'new.ts');
+    writeFileSync(path.join(dir, 'keep.ts'), 'export const b = 2;\n');
+    git('commit', '-q', '-am', 'rename');
+
+    const source = new PatchCombiner(dir).sourceFromBranch('feature', base);
+
+    expect(
+      source.files.map(({ path, added, removed }) => [path, added, removed])
+    ).toEqual([
+      ['keep.ts', 1, 1],
+      ['new.ts', 20, 0],
+      ['old.ts', 0, 20],
+    ]);
+  });
+});
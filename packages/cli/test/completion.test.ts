@@ -0,0 +1,117 @@
+import { describe, expect, it, vi } from 'vitest';
+import { waitForCompletion } from '../src/completion';
+import type { CompleteData, RunSummary } from '../src/types';
+
+const never = new Promise<never>(() => {});
+
+function run(changes: Partial<RunSummary>): RunSummary {
+  return {
+    containerID: 'run-1',
+    startedAt: '2024-01-01T00:00:00.000Z',
+    messageCount: 0,
+    bytes: 0,
+    live: false,
+    viewers: 0,
+    ...changes,
+  };
+}
+
+describe('waitForCompletion', () => {
+  it('uses the COMPLETE message when it arrives first', async () => {
+    const getRun = vi.fn();
+    const data: CompleteData = { exitCode: 0, outcome: 'completed' };
+
+    const completion = await waitForCompletion(
+      { getRun },
+      'run-1',
+      Promise.resolve(data),
+      never
+    );
+
+    expect(completion).toEqual({ data, reported: true });
+    expect(getRun).not.toHaveBeenCalled();
+  });
+
+  it('waits briefly for a COMPLETE message relayed after the exit', async () => {
+    const getRun = vi.fn();
+    const completed = new Promise<CompleteData>((resolve) => {
+      setTimeout(() => resolve({ exitCode: 1, outcome: 'failed' }), 10);
+    });
+
+    const completion = await waitForCompletion(
+      { getRun },
+      'run-1',
+      completed,
+      Promise.resolve(0),
+      1000
+    );
+
+    expect(completion.data.outcome).toBe('failed');
+    expect(completion.data.exitCode).toBe(1);
+    expect(getRun).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the run the server recorded', async () => {
+    const getRun = vi.fn(async () =>
+      run({
+        status: 'budget_exceeded',
+        endedAt: '2024-01-01T00:01:00.000Z',
+        exitCode: 1,
+        branch: 'claude/run-1',
+      })
+    );
+
+    const completion = await waitForCompletion(
+      { getRun },
+      'run-1',
+      never,
+      Promise.resolve(0),
+      0
+    );
+
+    expect(getRun).toHaveBeenCalledWith('run-1');
+    expect(completion.reported).toBe(true);
+    expect(completion.data).toMatchObject({
+      exitCode: 1,
+      outcome: 'budget_exceeded',
+      branch: 'claude/run-1',
+    });
+  });
+
+  it('reports the exit code when the server has no outcome', async () => {
+    const getRun = vi.fn(async () => run({ status: 'running' }));
+
+    const completion = await waitForCompletion(
+      { getRun },
+      'run-1',
+      never,
+      Promise.resolve(137),
+      0
+    );
+
+    expect(completion).toEqual({
+      data: {
+        exitCode: 137,
+        message: 'Container exited without reporting completion',
+      },
+      reported: false,
+    });
+  });
+
+  it('reports the exit code when the server cannot be reached', async () => {
+    const getRun = vi.fn(async () => {
+      throw new Error('connect ECONNREFUSED');
+    });
+
+    const completion = await waitForCompletion(
+      { getRun },
+      'run-1',
+      never,
+      Promise.resolve(0),
+      0
+    );
+
+    expect(completion.reported).toBe(false);
+    expect(completion.data.exitCode).toBe(0);
+  });
+});
@@ -0,0 +1,246 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { type Server, createServer } from 'node:http';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest';
+import { buildWrapperOptions } from '../src/commands/run';
+import type { RunCommandOptions } from '../src/commands/run';
+import {
+  BATCH_ID_LABEL,
+  CONTAINER_ID_LABEL,
+  DockerError,
+  DockerManager,
+} from '../src/docker';
+
+let root: string;
+
+beforeAll(() => {
+  root = mkdtempSync(path.join(tmpdir(), 'docker-'));
+});
+
+afterAll(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+const options: RunCommandOptions = {
+  repo: 'https://github.com/acme/app.git',
+  task: [],
+  checkout: process.cwd(),
+  concurrency: 1,
+  rankBy: [],
+  plan: false,
+  maxSubtasks: 5,
+  yes: false,
+  image: 'claude-docker-wrapper:latest',
+  server: 'ws://localhost:8080',
+  authToken: 'admin',
+  submodules: false,
+  push: true,
+  patch: false,
+  setup: [],
+  autoSetup: false,
+  claudeEnv: [],
+  env: [],
+  rm: false,
+  follow: false,
+};
+
+describe('buildWrapperOptions', () => {
+  beforeEach(() => {
+    vi.stubEnv('ANTHROPIC_API_KEY', '');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('lets the task override the command options', () => {
+    const wrapper = buildWrapperOptions(
+      { ...options, model: 'sonnet', env: ['A=1', 'B=2'] },
+      {
+        task: 'Fix the bug',
+        repo: 'https://github.com/acme/api.git',
+        model: 'opus',
+        env: { B: '3' },
+      },
+      'run-1'
+    );
+
+    expect(wrapper).toMatchObject({
+      containerID: 'run-1',
+      repoUrl: 'https://github.com/acme/api.git',
+      task: 'Fix the bug',
+      model: 'opus',
+      env: { A: '1', B: '3' },
+    });
+  });
+
+  it('points containers at the host for a local server', () => {
+    const wrapper = buildWrapperOptions(options, { task: 'Task' }, 'run-2');
+
+    expect(wrapper.wsServer).toBe('ws://host.docker.internal:8080/');
+    expect(
+      buildWrapperOptions(
+        { ...options, containerServer: 'ws://server:8080' },
+        { task: 'Task' },
+        'run-2'
+      ).wsServer
+    ).toBe('ws://server:8080');
+  });
+
+  it('reads prompts and MCP config from files', () => {
+    const mcpConfig = path.join(root, 'mcp.json');
+    writeFileSync(mcpConfig, '{"mcpServers": {}}');
+
+    const wrapper = buildWrapperOptions(
+      { ...options, mcpConfig, systemPrompt: 'Be brief' },
+      { task: 'Task' },
+      'run-3'
+    );
+
+    expect(wrapper.mcpConfig).toBe('{"mcpServers": {}}');
+    expect(wrapper.systemPrompt).toBe('Be brief');
+  });
+
+  it('joins multi-line settings', () => {
+    const wrapper = buildWrapperOptions(
+      {
+        ...options,
+        claudeEnv: ['DEBUG=1', 'TZ=UTC'],
+        setup: ['pnpm install', 'pnpm build'],
+      },
+      { task: 'Task' },
+      'run-4'
+    );
+
+    expect(wrapper.claudeEnv).toBe('DEBUG=1\nTZ=UTC');
+    expect(wrapper.setupCommands).toBe('pnpm install\npnpm build');
+  });
+
+  it('passes the API key through unless one is set', () => {
+    vi.stubEnv('ANTHROPIC_API_KEY', 'from-host');
+
+    expect(buildWrapperOptions(options, { task: 'Task' }, 'run-5').env).toEqual(
+      { ANTHROPIC_API_KEY: 'from-host' }
+    );
+    expect(
+      buildWrapperOptions(
+        { ...options, env: ['ANTHROPIC_API_KEY=explicit'] },
+        { task: 'Task' },
+        'run-5'
+      ).env
+    ).toEqual({ ANTHROPIC_API_KEY: 'explicit' });
+  });
+
+  it('rejects malformed environment variables', () => {
+    expect(() =>
+      buildWrapperOptions({ ...options, env: ['=1'] }, { task: 'Task' }, 'x')
+    ).toThrow('expected KEY=VALUE: =1');
+  });
+});
+
+describe('DockerManager', () => {
+  let api: Server;
+  let socketPath: string;
+  let status: number;
+  const created: { path: string; body: Record<string, unknown> }[] = [];
+
+  // Stands in for the Docker daemon's API socket
+  beforeAll(async () => {
+    socketPath = path.join(root, 'docker.sock');
+    api = createServer((request, response) => {
+      let body = '';
+      request.on('data', (chunk) => {
+        body += chunk;
+      });
+      request.on('end', () => {
+        created.push({ path: request.url ?? '', body: JSON.parse(body) });
+        response.writeHead(status, { 'Content-Type': 'application/json' });
+        response.end(
+          JSON.stringify(
+            status === 201 ? { Id: 'abc123' } : { message: 'Conflict' }
+          )
+        );
+      });
+    });
+    await new Promise<void>((resolve) => api.listen(socketPath, resolve));
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => api.close(resolve));
+  });
+
+  afterEach(() => {
+    created.splice(0);
+  });
+
+  it('creates a labelled container configured through its environment', async () => {
+    status = 201;
+    const docker = new DockerManager({ socketPath });
+
+    const container = await docker.createWrapperContainer({
+      image: 'claude-docker-wrapper:latest',
+      containerID: 'run-1',
+      repoUrl: 'https://github.com/acme/app.git',
+      task: 'Fix the bug',
+      wsServer: 'ws://host.docker.internal:8080/',
+      pushChanges: false,
+      maxTurns: '10',
+      branchName: '',
+      claudeEnv: 'DEBUG=1\nTZ=UTC',
+      variables: { name: 'app' },
+      env: { ANTHROPIC_API_KEY: 'key' },
+      batchID: 'batch-1',
+    });
+
+    expect(container.id).toBe('abc123');
+    const url = new URL(created[0].path, 'http://docker');
+    expect(url.pathname).toBe('/containers/create');
+    expect(url.searchParams.get('name')).toBe('claude-docker-run-1');
+    expect(created[0].body).toMatchObject({
+      Image: 'claude-docker-wrapper:latest',
+      Labels: {
+        [CONTAINER_ID_LABEL]: 'run-1',
+        [BATCH_ID_LABEL]: 'batch-1',
+      },
+      HostConfig: { AutoRemove: false },
+    });
+    expect(created[0].body.Env).toEqual([
+      'REPO_URL=https://github.com/acme/app.git',
+      'TASK=Fix the bug',
+      'WS_SERVER=ws://host.docker.internal:8080/',
+      'CONTAINER_ID=run-1',
+      'PUSH_CHANGES=false',
+      'MAX_TURNS=10',
+      'CLAUDE_ENV=DEBUG=1\nTZ=UTC',
+      'BATCH_ID=batch-1',
+      'TASK_VARIABLES={"name":"app"}',
+      'ANTHROPIC_API_KEY=key',
+    ]);
+  });
+
+  it('reports containers the daemon refuses to create', async () => {
+    status = 409;
+    const docker = new DockerManager({ socketPath });
+
+    const creating = docker.createWrapperContainer({
+      image: 'claude-docker-wrapper:latest',
+      containerID: 'run-2',
+      repoUrl: 'https://github.com/acme/app.git',
+      task: 'Task',
+      wsServer: 'ws://server:8080',
+    });
+
+    await expect(creating).rejects.toThrow(DockerError);
+    await expect(creating).rejects.toThrow('Failed to create container run-2');
+  });
+});
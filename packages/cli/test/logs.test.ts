@@ -0,0 +1,151 @@
+import type { IncomingMessage } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest';
+import { WebSocketServer } from 'ws';
+import { createLogFilter, streamLogs } from '../src/commands/logs';
+import type { LogsCommandOptions } from '../src/commands/logs';
+import type { Message } from '../src/types';
+import { MessageType } from '../src/types';
+
+function message(type: MessageType, data: Message['data']): Message {
+  return {
+    type,
+    containerID: 'logs-1',
+    timestamp: '2024-01-01T00:00:00.000Z',
+    data,
+  };
+}
+
+const info = message(MessageType.LOG, { level: 'info', message: 'Cloning' });
+const warning = message(MessageType.LOG, {
+  level: 'warn',
+  message: 'Retrying push',
+});
+const error = message(MessageType.ERROR, { error: 'Push failed' });
+const heartbeat = message(MessageType.HEARTBEAT, {
+  timestamp: '2024-01-01T00:00:00.000Z',
+});
+const replayed = message(MessageType.REPLAY_COMPLETE, {
+  count: 2,
+  lastSeq: 2,
+  truncated: false,
+});
+const complete = message(MessageType.COMPLETE, {
+  exitCode: 3,
+  outcome: 'failed',
+});
+
+describe('createLogFilter', () => {
+  it('hides heartbeats and replay markers', () => {
+    const filter = createLogFilter({});
+
+    expect([info, heartbeat, replayed, error].filter(filter)).toEqual([
+      info,
+      error,
+    ]);
+  });
+
+  it('shows messages at or above the level', () => {
+    const filter = createLogFilter({ level: 'warn' });
+
+    expect([info, warning, error].filter(filter)).toEqual([warning, error]);
+  });
+
+  it('matches the pattern case-insensitively', () => {
+    const filter = createLogFilter({ grep: 'push' });
+
+    expect([info, warning, error].filter(filter)).toEqual([warning, error]);
+  });
+
+  it('always shows completion', () => {
+    const filter = createLogFilter({ level: 'error', grep: 'nothing' });
+
+    expect(filter(complete)).toBe(true);
+  });
+});
+
+describe('streamLogs', () => {
+  let server: WebSocketServer;
+  let options: LogsCommandOptions;
+  let sent: Message[];
+  const requests: IncomingMessage[] = [];
+
+  beforeAll(async () => {
+    server = new WebSocketServer({ port: 0 });
+    server.on('connection', (socket, request) => {
+      requests.push(request);
+      for (const message of sent) {
+        socket.send(JSON.stringify(message));
+      }
+    });
+    await new Promise((resolve) => server.once('listening', resolve));
+    options = {
+      server: `ws://127.0.0.1:${(server.address() as AddressInfo).port}`,
+      authToken: 'secret',
+      follow: false,
+      json: true,
+      stored: false,
+    };
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  afterEach(() => {
+    requests.splice(0);
+    vi.restoreAllMocks();
+  });
+
+  function captureOutput(): string[] {
+    const lines: string[] = [];
+    vi.spyOn(process.stdout, 'write').mockImplementation((chunk) => {
+      lines.push(String(chunk));
+      return true;
+    });
+    return lines;
+  }
+
+  it('subscribes as a viewer with the token in a header', async () => {
+    sent = [replayed];
+    captureOutput();
+
+    await streamLogs('logs-1', { ...options, since: { sinceSeq: 4 } });
+
+    const url = new URL(requests[0].url ?? '', 'ws://localhost');
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      role: 'viewer',
+      containerID: 'logs-1',
+      sinceSeq: '4',
+    });
+    expect(requests[0].headers.authorization).toBe('Bearer secret');
+  });
+
+  it('stops after the replayed history without --follow', async () => {
+    sent = [info, replayed, warning];
+    const lines = captureOutput();
+
+    expect(await streamLogs('logs-1', options)).toBeUndefined();
+    expect(lines).toEqual([`${JSON.stringify(info)}\n`]);
+  });
+
+  it('follows until completion and returns the exit code', async () => {
+    sent = [info, replayed, heartbeat, warning, complete];
+    const lines = captureOutput();
+
+    expect(await streamLogs('logs-1', { ...options, follow: true })).toBe(3);
+    expect(lines.map((line) => JSON.parse(line))).toEqual([
+      info,
+      warning,
+      complete,
+    ]);
+  });
+});
@@ -0,0 +1,216 @@
+import { execFileSync } from 'node:child_process';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import {
+  TemplateError,
+  combinations,
+  expandGlob,
+  expandTemplate,
+  globToRegExp,
+  renderTemplate,
+} from '../src/matrix';
+import { TaskFileError, loadTaskFile } from '../src/tasks';
+
+let checkout: string;
+
+beforeAll(() => {
+  checkout = mkdtempSync(path.join(tmpdir(), 'matrix-'));
+  for (const file of [
+    'packages/api/package.json',
+    'packages/api/src/index.ts',
+    'packages/ui/package.json',
+    'docs/guide.md',
+  ]) {
+    mkdirSync(path.join(checkout, path.dirname(file)), { recursive: true });
+    writeFileSync(path.join(checkout, file), '');
+  }
+  execFileSync('git', ['init', '-q'], { cwd: checkout });
+});
+
+afterAll(() => {
+  rmSync(checkout, { recursive: true, force: true });
+});
+
+describe('renderTemplate', () => {
+  it('fills in placeholders', () => {
+    expect(
+      renderTemplate('Fix {{ package }} with {{model}}', {
+        package: 'api',
+        model: 'claude-4-sonnet',
+      })
+    ).toBe('Fix api with claude-4-sonnet');
+  });
+
+  it('rejects placeholders that are not variables', () => {
+    expect(() => renderTemplate('Fix {{package}}', {})).toThrow(
+      new TemplateError('{{package}} is not a matrix variable')
+    );
+  });
+});
+
+describe('combinations', () => {
+  it('varies the last variable fastest', () => {
+    expect(combinations({ os: ['linux', 'mac'], node: ['20', '22'] })).toEqual([
+      { os: 'linux', node: '20' },
+      { os: 'linux', node: '22' },
+      { os: 'mac', node: '20' },
+      { os: 'mac', node: '22' },
+    ]);
+  });
+});
+
+describe('globToRegExp', () => {
+  it('matches within and across path segments', () => {
+    expect(globToRegExp('packages/*').test('packages/api')).toBe(true);
+    expect(globToRegExp('packages/*').test('packages/api/src')).toBe(false);
+    expect(globToRegExp('**/*.ts').test('packages/api/src/index.ts')).toBe(
+      true
+    );
+    expect(globToRegExp('**/*.ts').test('index.ts')).toBe(true);
+    expect(globToRegExp('docs/*.{md,txt}').test('docs/guide.md')).toBe(true);
+    expect(globToRegExp('file?.ts').test('file1.ts')).toBe(true);
+    expect(globToRegExp('a.b').test('axb')).toBe(false);
+  });
+});
+
+describe('expandGlob', () => {
+  it('matches files and directories in the checkout', () => {
+    expect(expandGlob('packages/*/package.json', checkout)).toEqual([
+      'packages/api/package.json',
+      'packages/ui/package.json',
+    ]);
+    expect(expandGlob('packages/*', checkout)).toEqual([
+      'packages/api',
+      'packages/ui',
+    ]);
+  });
+
+  it('matches only directories with a trailing slash', () => {
+    expect(expandGlob('docs/*/', checkout)).toEqual([]);
+    expect(expandGlob('./packages/*/', checkout)).toEqual([
+      'packages/api',
+      'packages/ui',
+    ]);
+  });
+});
+
+describe('expandTemplate', () => {
+  it('renders every string in a copy per combination', () => {
+    const expanded = expandTemplate(
+      { task: 'Migrate {{package}}', setup: ['pnpm --dir {{package}} i'] },
+      { package: { glob: 'packages/*/' }, model: ['sonnet', 'opus'] },
+      checkout
+    );
+
+    expect(expanded).toEqual([
+      {
+        value: {
+          task: 'Migrate packages/api',
+          setup: ['pnpm --dir packages/api i'],
+        },
+        variables: { package: 'packages/api', model: 'sonnet' },
+      },
+      {
+        value: {
+          task: 'Migrate packages/api',
+          setup: ['pnpm --dir packages/api i'],
+        },
+        variables: { package: 'packages/api', model: 'opus' },
+      },
+      {
+        value: {
+          task: 'Migrate packages/ui',
+          setup: ['pnpm --dir packages/ui i'],
+        },
+        variables: { package: 'packages/ui', model: 'sonnet' },
+      },
+      {
+        value: {
+          task: 'Migrate packages/ui',
+          setup: ['pnpm --dir packages/ui i'],
+        },
+        variables: { package: 'packages/ui', model: 'opus' },
+      },
+    ]);
+  });
+
+  it('rejects a glob that matches nothing', () => {
+    expect(() =>
+      expandTemplate(
+        { task: '{{app}}' },
+        { app: { glob: 'apps/*/' } },
+        checkout
+      )
+    ).toThrow(`glob apps/*/ for "app" matches nothing in ${checkout}`);
+  });
+});
+
+describe('loadTaskFile with a matrix', () => {
+  function load(content: string): ReturnType<typeof loadTaskFile> {
+    const file = path.join(checkout, 'tasks.yaml');
+    writeFileSync(file, content);
+    return loadTaskFile(file, checkout);
+  }
+
+  it('names expanded tasks after their values', () => {
+    const specs = load(
+      [
+        'tasks:',
+        '  - name: lint',
+        '    task: Lint {{package}}',
+        '    matrix:',
+        '      package: [api, ui]',
+        '  - task: Fix {{package}}',
+        '    matrix:',
+        '      package: [api]',
+      ].join('\n')
+    );
+
+    expect(specs.map((spec) => [spec.name, spec.task, spec.variables])).toEqual(
+      [
+        ['lint (api)', 'Lint api', { package: 'api' }],
+        ['lint (ui)', 'Lint ui', { package: 'ui' }],
+        ['api', 'Fix api', { package: 'api' }],
+      ]
+    );
+  });
+
+  it('renders placeholders in names and dependencies', () => {
+    const specs = load(
+      [
+        'tasks:',
+        '  - name: build-{{package}}',
+        '    task: Build {{package}}',
+        '    matrix:',
+        '      package: [api, ui]',
+        '  - name: test-{{package}}',
+        '    task: Test {{package}}',
+        '    dependsOn: build-{{package}}',
+        '    matrix:',
+        '      package: [api, ui]',
+      ].join('\n')
+    );
+
+    expect(specs.map((spec) => [spec.name, spec.dependsOn])).toEqual([
+      ['build-api', undefined],
+      ['build-ui', undefined],
+      ['test-api', ['build-api']],
+      ['test-ui', ['build-ui']],
+    ]);
+  });
+
+  it('reports placeholders that are not variables', () => {
+    expect(() =>
+      load(
+        [
+          'tasks:',
+          '  - task: Fix {{pkg}}',
+          '    matrix:',
+          '      package: [api]',
+        ].join('\n')
+      )
+    ).toThrow(TaskFileError);
+  });
+});
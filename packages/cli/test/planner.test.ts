@@ -0,0 +1,125 @@
+import inquirer from 'inquirer';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { approvePlan } from '../src/commands/run';
+import {
+  PlanError,
+  buildSubtaskTask,
+  findPlanOverlaps,
+  parsePlan,
+  subtaskName,
+} from '../src/planner';
+import type { PlannedSubtask } from '../src/planner';
+
+function subtask(title: string, files: string[] = []): PlannedSubtask {
+  return { title, task: `Do ${title}`, files };
+}
+
+describe('parsePlan', () => {
+  it('reads the last JSON block of the reply', () => {
+    const reply = [
+      'An example:',
+      '```json',
+      '{"subtasks": [{"task": "Example"}]}',
+      '```',
+      'The plan:',
+      '```json',
+      '{"subtasks": [{"title": " API ", "task": " Add the endpoint ", "files": ["src/api.ts", 3]}]}',
+      '```',
+    ].join('\n');
+
+    expect(parsePlan(reply)).toEqual([
+      { title: 'API', task: 'Add the endpoint', files: ['src/api.ts'] },
+    ]);
+  });
+
+  it('reads a bare JSON object and numbers untitled subtasks', () => {
+    expect(
+      parsePlan('Here it is: {"subtasks": [{"task": "A"}, {"task": "B"}]}')
+    ).toEqual([
+      { title: 'Subtask 1', task: 'A', files: [] },
+      { title: 'Subtask 2', task: 'B', files: [] },
+    ]);
+  });
+
+  it.each([
+    ['no JSON', 'I could not make a plan', 'did not reply with a JSON plan'],
+    ['invalid JSON', '{"subtasks": [}', 'not valid JSON'],
+    ['no subtasks', '{"subtasks": []}', 'does not contain any subtasks'],
+    ['a subtask without a task', '{"subtasks": [{}]}', 'Subtask 1 is missing'],
+  ])('rejects a reply with %s', (_, reply, message) => {
+    expect(() => parsePlan(reply)).toThrow(PlanError);
+    expect(() => parsePlan(reply)).toThrow(message);
+  });
+});
+
+describe('findPlanOverlaps', () => {
+  it('finds subtasks that change the same files or directories', () => {
+    const overlaps = findPlanOverlaps([
+      subtask('api', ['./src/api.ts', 'src/db/']),
+      subtask('ui', ['src/ui.tsx']),
+      subtask('schema', ['src/db/schema.ts', 'src/api.ts']),
+    ]);
+
+    expect(overlaps).toEqual([
+      { subtasks: [0, 2], files: ['src/api.ts', 'src/db'] },
+    ]);
+  });
+});
+
+describe('subtaskName', () => {
+  it('slugs the title', () => {
+    expect(subtaskName(subtask('Add the /users API!'), 0)).toBe(
+      '1-add-the-users-api'
+    );
+    expect(subtaskName(subtask('???'), 2)).toBe('3-subtask');
+  });
+});
+
+describe('buildSubtaskTask', () => {
+  it('keeps the overall goal in view', () => {
+    const task = buildSubtaskTask('Add users', subtask('api'));
+
+    expect(task.startsWith('Do api\n')).toBe(true);
+    expect(task).toContain('Add users');
+  });
+});
+
+describe('approvePlan', () => {
+  const isTTY = process.stdin.isTTY;
+  const plan = [subtask('api'), subtask('ui'), subtask('docs')];
+
+  beforeEach(() => {
+    process.stdin.isTTY = true;
+  });
+
+  afterEach(() => {
+    process.stdin.isTTY = isTTY;
+    vi.restoreAllMocks();
+  });
+
+  it('runs the subtasks that stay selected', async () => {
+    const prompt = vi
+      .spyOn(inquirer, 'prompt')
+      .mockResolvedValue({ selected: [0, 2] } as never);
+
+    expect(await approvePlan(plan)).toEqual([plan[0], plan[2]]);
+    expect(prompt.mock.calls[0][0]).toMatchObject([
+      {
+        type: 'checkbox',
+        choices: [
+          { name: '1. api', value: 0, checked: true },
+          { name: '2. ui', value: 1, checked: true },
+          { name: '3. docs', value: 2, checked: true },
+        ],
+      },
+    ]);
+  });
+
+  it('needs a terminal', async () => {
+    process.stdin.isTTY = false;
+    const prompt = vi.spyOn(inquirer, 'prompt');
+
+    await expect(approvePlan(plan)).rejects.toThrow('pass --yes');
+    expect(prompt).not.toHaveBeenCalled();
+  });
+});
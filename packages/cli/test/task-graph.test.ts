@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import type { BatchTaskResult } from '../src/batch';
+import {
+  TaskGraphError,
+  resolveDependencies,
+  succeeded,
+} from '../src/task-graph';
+import type { TaskSpec } from '../src/tasks';
+
+function spec(name: string, dependsOn?: string[]): TaskSpec {
+  return { name, task: `Do ${name}`, dependsOn };
+}
+
+describe('resolveDependencies', () => {
+  it('resolves names to task indexes', () => {
+    expect(
+      resolveDependencies([
+        spec('schema'),
+        spec('clients', ['schema']),
+        spec('docs', ['schema', 'clients']),
+      ])
+    ).toEqual([[], [0], [0, 1]]);
+  });
+
+  it('rejects unknown tasks', () => {
+    expect(() => resolveDependencies([spec('docs', ['schema'])])).toThrow(
+      'docs depends on unknown task "schema"'
+    );
+  });
+
+  it('rejects names shared by several tasks', () => {
+    expect(() =>
+      resolveDependencies([spec('a'), spec('a'), spec('b', ['a'])])
+    ).toThrow('b depends on "a", which names several tasks');
+  });
+
+  it('rejects a task depending on itself', () => {
+    expect(() => resolveDependencies([spec('a', ['a'])])).toThrow(
+      'a depends on itself'
+    );
+  });
+
+  it('rejects cycles, naming the tasks in them', () => {
+    expect(() =>
+      resolveDependencies([
+        spec('start'),
+        spec('a', ['c']),
+        spec('b', ['a']),
+        spec('c', ['b', 'start']),
+      ])
+    ).toThrow(
+      new TaskGraphError(
+        'tasks depend on each other in a cycle: a -> c -> b -> a'
+      )
+    );
+  });
+});
+
+describe('succeeded', () => {
+  const result = (changes: Partial<BatchTaskResult>): BatchTaskResult => ({
+    name: 'a',
+    containerID: 'batch-1',
+    status: 'completed',
+    exitCode: 0,
+    ...changes,
+  });
+
+  it('requires completion with exit code 0', () => {
+    expect(succeeded(result({}))).toBe(true);
+    expect(succeeded(result({ exitCode: 1 }))).toBe(false);
+    expect(succeeded(result({ status: 'cancelled' }))).toBe(false);
+    expect(succeeded(result({ status: 'budget_exceeded' }))).toBe(false);
+    expect(succeeded(result({ status: 'skipped' }))).toBe(false);
+  });
+
+  it('fails tasks whose verification failed', () => {
+    const verification = {
+      command: 'pnpm test',
+      exitCode: 1,
+      duration: 10,
+      passed: false,
+    };
+
+    expect(succeeded(result({ verification }))).toBe(false);
+  });
+});
@@ -0,0 +1,72 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { TaskFileError, loadTaskFile } from '../src/tasks';
+
+let directory: string;
+
+beforeAll(() => {
+  directory = mkdtempSync(path.join(tmpdir(), 'tasks-'));
+});
+
+afterAll(() => {
+  rmSync(directory, { recursive: true, force: true });
+});
+
+function load(content: string, name = 'tasks.yaml') {
+  const file = path.join(directory, name);
+  writeFileSync(file, content);
+  return loadTaskFile(file);
+}
+
+describe('loadTaskFile', () => {
+  it('accepts plain strings and objects', () => {
+    expect(
+      load(
+        JSON.stringify({ tasks: ['Fix lint', { name: 'docs', task: 'Docs' }] }),
+        'tasks.json'
+      )
+    ).toEqual([{ task: 'Fix lint' }, { name: 'docs', task: 'Docs' }]);
+  });
+
+  it('normalises shorthand values', () => {
+    const [spec] = load(`
+- task: Upgrade
+  maxTurns: 5
+  setup: pnpm install
+  dependsOn: schema
+  env:
+    PORT: 3000
+    DEBUG: true
+- name: schema
+  task: Schema
+`);
+
+    expect(spec).toEqual({
+      task: 'Upgrade',
+      maxTurns: '5',
+      setup: ['pnpm install'],
+      dependsOn: ['schema'],
+      env: { PORT: '3000', DEBUG: 'true' },
+    });
+  });
+
+  it('drops fields it does not know', () => {
+    const [spec] = load('- task: Fix\n  colour: blue\n');
+
+    expect(spec).not.toHaveProperty('colour');
+  });
+
+  it.each([
+    ['task', '- name: empty\n', 'is missing "task"'],
+    ['repo', '- task: Fix\n  repo: [a, b]\n', 'invalid "repo"'],
+    ['maxCostUsd', '- task: Fix\n  maxCostUsd: -1\n', 'invalid "maxCostUsd"'],
+    ['setup', '- task: Fix\n  setup: [1]\n', 'invalid "setup"'],
+    ['env', '- task: Fix\n  env: [A=1]\n', 'invalid "env"'],
+    ['env values', '- task: Fix\n  env: { A: [1] }\n', 'invalid "env"'],
+  ])('rejects an invalid %s', (_, content, message) => {
+    expect(() => load(content)).toThrow(TaskFileError);
+    expect(() => load(content)).toThrow(message);
+  });
+});
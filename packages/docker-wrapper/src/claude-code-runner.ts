@@ -1,14 +1,21 @@
 import { spawn } from 'node:child_process';
 import { exec } from 'node:child_process';
+import type { ChildProcess, SpawnOptions } from 'node:child_process';
 /**
  * Claude Code Runner
  * Specialized wrapper for running Claude Code binary aligned with official GitHub Action
  */
 import { EventEmitter } from 'node:events';
 import { createWriteStream } from 'node:fs';
+import type { WriteStream } from 'node:fs';
 import { stat, unlink, writeFile } from 'node:fs/promises';
+import * as os from 'node:os';
 import { promisify } from 'node:util';
 import type { ProcessOutput } from './process-runner';
+import { StreamJsonParser } from './stream-json-parser';
+import type { ClaudeEventData, RunOutcome, RunUsage } from './types';
+import { UsageTracker } from './usage-tracker';
+import type { TurnUsage } from './usage-tracker';
 
 const execAsync = promisify(exec);
 
@@ -26,17 +33,32 @@ export interface ClaudeCodeOptions {
   fallbackModel?: string;
   model?: string;
   extraArgs?: string[];
+  maxCostUsd?: number; // Stop the run once its estimated cost exceeds this
+}
+
+/**
+ * Options for a single run, used to follow up on an earlier run
+ */
+export interface ClaudeRunOptions {
+  prompt?: string; // Sent instead of the task
+  resume?: boolean; // Continue the previous run's session
+  spentUsd?: number; // Cost of earlier runs, counted against maxCostUsd
 }
 
 export interface ClaudeCodeResult {
   exitCode: number;
   duration: number;
   success: boolean;
+  outcome: RunOutcome;
   output: string;
+  usage: RunUsage;
+  sessionId?: string;
 }
 
 export type ClaudeOutputCallback = (output: ProcessOutput) => void;
 
+export type ClaudeEventCallback = (event: ClaudeEventData) => void;
+
 export class ClaudeCodeRunner extends EventEmitter {
   private startTime = 0;
   private options: ClaudeCodeOptions;
@@ -44,6 +66,23 @@ export class ClaudeCodeRunner extends EventEmitter {
   private workspaceTemp: string;
   private pipePath: string;
   private executionFile: string;
+  private streamParser = new StreamJsonParser((turn) => this.recordTurn(turn));
+  private usageTracker: UsageTracker;
+  private budgetExceeded = false;
+  private spentUsd = 0;
+  private sessionId?: string;
+  private children = new Set<ChildProcess>();
+  private groupLeaders = new Set<ChildProcess>();
+  private pipeStream?: WriteStream;
+  private running = false;
+  private cancelled = false;
+  private deadline = 0;
+  private timeoutTimer?: NodeJS.Timeout;
+  private onTimeout?: () => void;
+
+  private static readonly KILL_GRACE_PERIOD = 5000; // SIGTERM to SIGKILL (in ms)
+  private static readonly CANCELLED_EXIT_CODE = 143; // 128 + SIGTERM
+  private static readonly TIMEOUT_EXIT_CODE = 124;
 
   private static readonly BASE_ARGS = [
     '-p',
@@ -58,6 +97,7 @@ export class ClaudeCodeRunner extends EventEmitter {
     this.workspaceTemp = `${options.workingDirectory}/.tmp`;
     this.pipePath = `${this.workspaceTemp}/claude_prompt_pipe`;
     this.executionFile = `${this.workspaceTemp}/claude-execution-output.json`;
+    this.usageTracker = new UsageTracker(options.model);
   }
 
   /**
@@ -96,12 +136,20 @@ export class ClaudeCodeRunner extends EventEmitter {
   /**
    * Prepare Claude run configuration matching official implementation
    */
-  private prepareRunConfig(): {
+  private prepareRunConfig(resume = false): {
     claudeArgs: string[];
     env: Record<string, string>;
   } {
     const claudeArgs = [...ClaudeCodeRunner.BASE_ARGS];
 
+    if (resume) {
+      // Without a session ID from the previous run, continue the most
+      // recent conversation in the workspace
+      claudeArgs.push(
+        ...(this.sessionId ? ['--resume', this.sessionId] : ['--continue'])
+      );
+    }
+
     if (this.options.allowedTools) {
       claudeArgs.push('--allowedTools', this.options.allowedTools);
     }
@@ -144,65 +192,216 @@ export class ClaudeCodeRunner extends EventEmitter {
   /**
    * Create task prompt file for Claude
    */
-  private async createTaskPrompt(): Promise<string> {
+  private async createTaskPrompt(prompt: string): Promise<string> {
     const promptPath = `${this.workspaceTemp}/task-prompt.txt`;
-    await writeFile(promptPath, this.options.task);
+    await writeFile(promptPath, prompt);
     return promptPath;
   }
 
   /**
-   * Pretty print JSON output from Claude
+   * Emit stream-json lines as typed events; anything else is plain output
    */
   private processOutputLine(
     line: string,
-    outputCallback?: ClaudeOutputCallback
+    outputCallback?: ClaudeOutputCallback,
+    eventCallback?: ClaudeEventCallback
   ): void {
     if (line.trim() === '') return;
 
-    try {
-      // Try to parse as JSON and pretty print
-      const parsed = JSON.parse(line);
-      const prettyJson = JSON.stringify(parsed, null, 2);
-
-      const output: ProcessOutput = {
-        line: prettyJson,
-        isError: false,
-        timestamp: new Date(),
-      };
+    const events = this.streamParser.parseLine(line);
+    if (events) {
+      for (const event of events) {
+        if (event.kind === 'system_init' && event.sessionId) {
+          this.sessionId = event.sessionId;
+        }
+        if (event.kind === 'tool_result') {
+          this.usageTracker.addUserMessage();
+        }
+        if (event.kind === 'result') {
+          this.usageTracker.setReported(
+            event.costUsd,
+            event.usage,
+            event.numTurns
+          );
+        }
+        this.emit('event', event);
+        eventCallback?.(event);
+      }
+      return;
+    }
+
+    const output: ProcessOutput = {
+      line,
+      isError: false,
+      timestamp: new Date(),
+    };
+
+    this.emit('output', output);
+    outputCallback?.(output);
+  }
+
+  /**
+   * Add a turn's usage, stopping the run if it pushes the estimated cost
+   * over the budget
+   */
+  private recordTurn(turn: TurnUsage): void {
+    this.usageTracker.addTurn(turn);
+
+    const { maxCostUsd } = this.options;
+    if (
+      maxCostUsd === undefined ||
+      !this.running ||
+      this.cancelled ||
+      this.budgetExceeded
+    ) {
+      return;
+    }
 
-      this.emit('output', output);
-      outputCallback?.(output);
+    const costUsd = this.spentUsd + this.usageTracker.getUsage().costUsd;
+    if (costUsd > maxCostUsd) {
+      console.error(
+        `Cost budget exceeded: $${costUsd.toFixed(2)} of $${maxCostUsd.toFixed(2)}`
+      );
+      this.budgetExceeded = true;
+      this.terminateChildren().catch((error) => {
+        console.error('Failed to terminate Claude processes:', error);
+      });
+    }
+  }
+
+  /**
+   * Spawn a child process and track it until it exits. Children spawned
+   * with `detached` lead their own process group.
+   */
+  private spawnTracked(
+    command: string,
+    args: string[],
+    options: SpawnOptions
+  ): ChildProcess {
+    const child = spawn(command, args, options);
+    this.children.add(child);
+    if (options.detached) {
+      this.groupLeaders.add(child);
+    }
+    child.on('exit', () => {
+      this.children.delete(child);
+    });
+    child.on('error', () => {
+      this.children.delete(child);
+    });
+    return child;
+  }
+
+  /**
+   * Send a signal to a child, or to its whole process group if it leads one
+   */
+  private signalChild(child: ChildProcess, signal: NodeJS.Signals): void {
+    if (!child.pid) {
+      return;
+    }
+
+    try {
+      if (this.groupLeaders.has(child)) {
+        // The group outlives its leader when tools ignore the signal
+        process.kill(-child.pid, signal);
+      } else if (child.exitCode === null && child.signalCode === null) {
+        child.kill(signal);
+      }
     } catch {
-      // Not JSON, output as is
-      const output: ProcessOutput = {
-        line,
-        isError: false,
-        timestamp: new Date(),
-      };
+      // Process may already be dead
+    }
+  }
+
+  /**
+   * Resolve once a child has exited
+   */
+  private waitForChild(child: ChildProcess): Promise<void> {
+    if (child.exitCode !== null || child.signalCode !== null) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => {
+      child.once('exit', () => resolve());
+      child.once('error', () => resolve());
+    });
+  }
+
+  /**
+   * Terminate every tracked child: SIGTERM first, then SIGKILL for anything
+   * still running after the grace period. Removes the named pipe.
+   */
+  private async terminateChildren(): Promise<void> {
+    const children = Array.from(this.children);
+    const leaders = Array.from(this.groupLeaders);
+
+    for (const child of children) {
+      this.signalChild(child, 'SIGTERM');
+    }
 
-      this.emit('output', output);
-      outputCallback?.(output);
+    let graceTimer: NodeJS.Timeout | undefined;
+    const graceExpired = new Promise<boolean>((resolve) => {
+      graceTimer = setTimeout(
+        () => resolve(true),
+        ClaudeCodeRunner.KILL_GRACE_PERIOD
+      );
+    });
+    const exited = Promise.all(
+      children.map((child) => this.waitForChild(child))
+    ).then(() => false);
+
+    const timedOut = await Promise.race([exited, graceExpired]);
+    clearTimeout(graceTimer);
+
+    // Process groups are always killed, since tools may outlive their leader
+    for (const child of timedOut ? children : leaders) {
+      this.signalChild(child, 'SIGKILL');
+    }
+    this.groupLeaders.clear();
+
+    this.pipeStream?.destroy();
+    await this.removePipe();
+  }
+
+  /**
+   * Remove the named pipe used to feed the prompt to Claude
+   */
+  private async removePipe(): Promise<void> {
+    try {
+      await unlink(this.pipePath);
+    } catch {
+      // Pipe may not exist
     }
   }
 
   /**
-   * Execute Claude Code with the provided task using official implementation pattern
+   * Execute Claude Code with the provided task using official implementation pattern.
+   * Usage is reported per run.
    */
   public async run(
-    outputCallback?: ClaudeOutputCallback
+    outputCallback?: ClaudeOutputCallback,
+    eventCallback?: ClaudeEventCallback,
+    runOptions: ClaudeRunOptions = {}
   ): Promise<ClaudeCodeResult> {
     this.startTime = Date.now();
+    this.running = true;
+    this.cancelled = false;
+    this.budgetExceeded = false;
+    this.spentUsd = runOptions.spentUsd ?? 0;
+    if (!runOptions.resume) {
+      this.sessionId = undefined;
+    }
+    this.usageTracker.reset();
+
+    let output = '';
 
     try {
-      const config = this.prepareRunConfig();
+      const config = this.prepareRunConfig(runOptions.resume);
       await execAsync(`mkdir -p "${this.workspaceTemp}"`);
 
-      const promptPath = await this.createTaskPrompt();
-
-      try {
-        await unlink(this.pipePath);
-      } catch {}
+      const promptPath = await this.createTaskPrompt(
+        runOptions.prompt ?? this.options.task
+      );
 
+      await this.removePipe();
       await execAsync(`mkfifo "${this.pipePath}"`);
 
       let promptSize = 'unknown';
@@ -221,26 +420,39 @@ export class ClaudeCodeRunner extends EventEmitter {
 
       console.log(`Running Claude with prompt from file: ${promptPath}`);
 
-      const catProcess = spawn('cat', [promptPath], {
+      const catProcess = this.spawnTracked('cat', [promptPath], {
         stdio: ['ignore', 'pipe', 'inherit'],
       });
       const pipeStream = createWriteStream(this.pipePath);
-      catProcess.stdout.pipe(pipeStream);
+      this.pipeStream = pipeStream;
+      catProcess.stdout?.pipe(pipeStream);
+
+      pipeStream.on('error', (error) => {
+        if (!this.cancelled) {
+          console.error('Error writing to named pipe:', error);
+        }
+      });
 
       catProcess.on('error', (error) => {
         console.error('Error reading prompt file:', error);
         pipeStream.destroy();
       });
 
-      // Start Claude process
-      const claudeProcess = spawn(this.claudeCodePath, config.claudeArgs, {
-        stdio: ['pipe', 'pipe', 'inherit'],
-        env: {
-          ...process.env,
-          ...config.env,
-        },
-        cwd: this.options.workingDirectory,
-      });
+      // Start Claude in its own process group so the tools it runs can be
+      // terminated with it
+      const claudeProcess = this.spawnTracked(
+        this.claudeCodePath,
+        config.claudeArgs,
+        {
+          stdio: ['pipe', 'pipe', 'inherit'],
+          env: {
+            ...process.env,
+            ...config.env,
+          },
+          cwd: this.options.workingDirectory,
+          detached: true,
+        }
+      );
 
       // Handle Claude process errors
       claudeProcess.on('error', (error) => {
@@ -249,32 +461,43 @@ export class ClaudeCodeRunner extends EventEmitter {
       });
 
       // Capture and process output
-      let output = '';
-      claudeProcess.stdout.on('data', (data) => {
+      // stream-json records can span chunks, so only complete lines are parsed
+      let pendingLine = '';
+      const flushPendingLine = () => {
+        this.processOutputLine(pendingLine, outputCallback, eventCallback);
+        pendingLine = '';
+      };
+
+      claudeProcess.stdout?.on('data', (data) => {
         const text = data.toString();
-        const lines = text.split('\n');
+        const lines = `${pendingLine}${text}`.split('\n');
+        pendingLine = lines.pop() ?? '';
 
-        for (const [index, line] of lines.entries()) {
-          if (line.trim() === '' && index === lines.length - 1) continue;
-          this.processOutputLine(line, outputCallback);
+        for (const line of lines) {
+          this.processOutputLine(line, outputCallback, eventCallback);
         }
 
         output += text;
       });
+      claudeProcess.stdout?.on('end', flushPendingLine);
 
       // Handle stdout errors
-      claudeProcess.stdout.on('error', (error) => {
+      claudeProcess.stdout?.on('error', (error) => {
         console.error('Error reading Claude stdout:', error);
       });
 
       // Pipe from named pipe to Claude
-      const pipeProcess = spawn('cat', [this.pipePath]);
-      pipeProcess.stdout.pipe(claudeProcess.stdin);
+      const pipeProcess = this.spawnTracked('cat', [this.pipePath], {
+        stdio: ['ignore', 'pipe', 'inherit'],
+      });
+      if (claudeProcess.stdin) {
+        pipeProcess.stdout?.pipe(claudeProcess.stdin);
+      }
 
       // Handle pipe process errors
       pipeProcess.on('error', (error) => {
         console.error('Error reading from named pipe:', error);
-        claudeProcess.kill('SIGTERM');
+        this.signalChild(claudeProcess, 'SIGTERM');
       });
 
       let timeoutMs = 10 * 60 * 1000; // Default 10 minutes
@@ -283,73 +506,64 @@ export class ClaudeCodeRunner extends EventEmitter {
       }
 
       // Wait for Claude to finish with timeout
-      const exitCode = await new Promise<number>((resolve) => {
-        let resolved = false;
-
-        const timeoutId = setTimeout(() => {
-          if (!resolved) {
-            console.error(
-              `Claude process timed out after ${timeoutMs / 1000} seconds`
-            );
-            claudeProcess.kill('SIGTERM');
-
-            // Force kill after 5 seconds
-            setTimeout(() => {
-              try {
-                claudeProcess.kill('SIGKILL');
-              } catch {
-                // Process may already be dead
-              }
-            }, 5000);
-
-            resolved = true;
-            resolve(124);
-          }
-        }, timeoutMs);
-
-        claudeProcess.on('close', (code) => {
-          if (!resolved) {
-            clearTimeout(timeoutId);
-            resolved = true;
-            resolve(code || 0);
-          }
+      let timedOut = false;
+      let exitCode = await new Promise<number>((resolve) => {
+        this.onTimeout = () => {
+          console.error(
+            `Claude process timed out after ${Math.round((Date.now() - this.startTime) / 1000)} seconds`
+          );
+          timedOut = true;
+          this.terminateChildren().catch((error) => {
+            console.error('Failed to terminate Claude processes:', error);
+          });
+        };
+        this.deadline = Date.now() + timeoutMs;
+        this.scheduleTimeout();
+
+        claudeProcess.on('close', (code, signal) => {
+          this.disarmTimeout();
+          // Shells report a signalled process as 128 + its number
+          resolve(code ?? (signal ? 128 + os.constants.signals[signal] : 1));
         });
 
         claudeProcess.on('error', (error) => {
-          if (!resolved) {
-            console.error('Claude process error:', error);
-            clearTimeout(timeoutId);
-            resolved = true;
-            resolve(1);
-          }
+          console.error('Claude process error:', error);
+          this.disarmTimeout();
+          resolve(1);
         });
       });
 
-      try {
-        catProcess.kill('SIGTERM');
-      } catch {
-        // Process may already be dead
-      }
-      try {
-        pipeProcess.kill('SIGTERM');
-      } catch {
-        // Process may already be dead
+      // Output after the last newline is still reported when Claude is
+      // stopped part-way through a record
+      flushPendingLine();
+
+      // Stop the prompt feeders and any tools left in Claude's group
+      await this.terminateChildren();
+
+      let outcome: RunOutcome;
+      if (this.cancelled) {
+        outcome = 'cancelled';
+        exitCode = ClaudeCodeRunner.CANCELLED_EXIT_CODE;
+      } else if (timedOut) {
+        outcome = 'timed_out';
+        exitCode = ClaudeCodeRunner.TIMEOUT_EXIT_CODE;
+      } else if (this.budgetExceeded) {
+        outcome = 'budget_exceeded';
+        exitCode = 1;
+      } else {
+        outcome = exitCode === 0 ? 'completed' : 'failed';
       }
 
-      try {
-        await unlink(this.pipePath);
-      } catch {
-        // Ignore errors during cleanup
-      }
-
-      if (exitCode === 0 && output) {
+      if (output) {
         try {
           await writeFile(`${this.workspaceTemp}/output.txt`, output);
-          const { stdout: jsonOutput } = await execAsync(
-            `jq -s '.' "${this.workspaceTemp}/output.txt"`
-          );
-          await writeFile(this.executionFile, jsonOutput);
-          console.log(`Log saved to ${this.executionFile}`);
+          if (outcome === 'completed') {
+            const { stdout: jsonOutput } = await execAsync(
+              `jq -s '.' "${this.workspaceTemp}/output.txt"`
+            );
+            await writeFile(this.executionFile, jsonOutput);
+            console.log(`Log saved to ${this.executionFile}`);
+          }
         } catch (e) {
           console.warn(`Failed to process output for execution metrics: ${e}`);
         }
@@ -360,28 +574,90 @@ export class ClaudeCodeRunner extends EventEmitter {
       return {
         exitCode,
         duration,
-        success: exitCode === 0,
+        success: outcome === 'completed',
+        outcome,
         output,
+        usage: this.usageTracker.getUsage(),
+        sessionId: this.sessionId,
       };
     } catch (error) {
       const duration = Date.now() - this.startTime;
 
       this.emit('error', error);
+      await this.terminateChildren();
 
       return {
-        exitCode: 1,
+        exitCode: this.cancelled ? ClaudeCodeRunner.CANCELLED_EXIT_CODE : 1,
         duration,
         success: false,
-        output: '',
+        outcome: this.cancelled ? 'cancelled' : 'failed',
+        output,
+        usage: this.usageTracker.getUsage(),
+        sessionId: this.sessionId,
       };
+    } finally {
+      this.running = false;
+      this.disarmTimeout();
+    }
+  }
+
+  /**
+   * Arm the timeout timer for the current deadline
+   */
+  private scheduleTimeout(): void {
+    clearTimeout(this.timeoutTimer);
+    if (this.onTimeout) {
+      this.timeoutTimer = setTimeout(
+        this.onTimeout,
+        Math.max(0, this.deadline - Date.now())
+      );
+    }
+  }
+
+  /**
+   * Disarm the timeout timer
+   */
+  private disarmTimeout(): void {
+    clearTimeout(this.timeoutTimer);
+    this.timeoutTimer = undefined;
+    this.onTimeout = undefined;
+  }
+
+  /**
+   * Push back the deadline of the in-progress run. Returns the new deadline,
+   * or null if there is no run to extend.
+   */
+  public extendTimeout(ms: number): Date | null {
+    if (!this.running || !this.onTimeout) {
+      return null;
     }
+
+    this.deadline += ms;
+    this.scheduleTimeout();
+    console.log(`Timeout extended by ${ms / 1000} seconds`);
+    return new Date(this.deadline);
   }
 
   /**
-   * Terminate the Claude Code process
+   * Whether a run is in progress
    */
-  public kill(): void {
+  public isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Terminate the Claude Code process group and the prompt pipe processes.
+   * The in-progress run resolves with a `cancelled` outcome.
+   */
+  public async kill(): Promise<void> {
+    if (!this.running) {
+      await this.removePipe();
+      return;
+    }
+
     console.log('Claude process termination requested');
+    this.cancelled = true;
+    await this.terminateChildren();
   }
 
   /**
@@ -21,9 +21,41 @@ export interface Config {
   timeout: number;
   logLevel: string;
   workspaceDir: string;
+  batchID?: string;
+  variables?: Record<string, string>; // Template variables the task was expanded with
+
+  // Cost control
+  maxCostUsd?: number;
+
+  // Setup
+  setupCommands: string[];
+  autoSetup: boolean;
+  setupTimeout: number;
+
+  // Verification
+  verifyCommand?: string;
+  verifyTimeout: number;
+  onVerifyFailure: VerifyFailureAction;
+  maxFixAttempts: number;
 
   // Authentication
   githubToken?: string;
+  wsToken?: string;
+
+  // Repository checkout
+  baseRef?: string;
+  cloneDepth?: number;
+  cloneFilter?: string;
+  submodules: boolean;
+
+  // Publishing changes
+  pushChanges: boolean;
+  branchTemplate: string;
+  commitMessage: string;
+  gitAuthorName: string;
+  gitAuthorEmail: string;
+  exportPatch: boolean;
+  patchMaxBytes: number;
 
   // Claude Code specific options
   allowedTools?: string;
@@ -37,6 +69,19 @@ export interface Config {
   model?: string;
 }
 
+/**
+ * What to do with a run whose verification command fails: `report` only
+ * records it, `skip-publish` keeps the changes from being pushed or exported
+ * and `fail` does the same and also fails the run
+ */
+export type VerifyFailureAction = 'report' | 'skip-publish' | 'fail';
+
+const VERIFY_FAILURE_ACTIONS: VerifyFailureAction[] = [
+  'report',
+  'skip-publish',
+  'fail',
+];
+
 export class ConfigError extends Error {
   constructor(message: string) {
     super(`Configuration Error: ${message}`);
@@ -66,6 +111,94 @@ export function loadConfig(): Config {
   const workspaceDir = process.env.WORKSPACE_DIR || '/workspace';
 
   const githubToken = process.env.GITHUB_TOKEN;
+  const wsToken = process.env.WS_TOKEN;
+  const batchID = process.env.BATCH_ID || undefined;
+  const variables = parseVariables(process.env.TASK_VARIABLES);
+
+  const maxCostUsd = process.env.MAX_COST_USD
+    ? Number.parseFloat(process.env.MAX_COST_USD)
+    : undefined;
+  if (
+    maxCostUsd !== undefined &&
+    (Number.isNaN(maxCostUsd) || maxCostUsd <= 0)
+  ) {
+    throw new ConfigError(
+      `MAX_COST_USD must be a positive number, got: ${process.env.MAX_COST_USD}`
+    );
+  }
+
+  const setupCommands = (process.env.SETUP_COMMANDS || '')
+    .split('\n')
+    .map((command) => command.trim())
+    .filter((command) => command !== '');
+  const autoSetup = process.env.AUTO_SETUP === 'true';
+  const setupTimeout = Number.parseInt(
+    process.env.SETUP_TIMEOUT || '600000',
+    10
+  );
+  if (Number.isNaN(setupTimeout) || setupTimeout <= 0) {
+    throw new ConfigError(
+      `SETUP_TIMEOUT must be a positive number, got: ${process.env.SETUP_TIMEOUT}`
+    );
+  }
+
+  const verifyCommand = process.env.VERIFY_COMMAND?.trim() || undefined;
+  const verifyTimeout = Number.parseInt(
+    process.env.VERIFY_TIMEOUT || '600000',
+    10
+  );
+  if (Number.isNaN(verifyTimeout) || verifyTimeout <= 0) {
+    throw new ConfigError(
+      `VERIFY_TIMEOUT must be a positive number, got: ${process.env.VERIFY_TIMEOUT}`
+    );
+  }
+  const onVerifyFailure = (process.env.ON_VERIFY_FAILURE ||
+    'report') as VerifyFailureAction;
+  if (!VERIFY_FAILURE_ACTIONS.includes(onVerifyFailure)) {
+    throw new ConfigError(
+      `ON_VERIFY_FAILURE must be one of ${VERIFY_FAILURE_ACTIONS.join(', ')}, got: ${onVerifyFailure}`
+    );
+  }
+
+  const maxFixAttempts = Number.parseInt(
+    process.env.MAX_FIX_ATTEMPTS || '0',
+    10
+  );
+  if (Number.isNaN(maxFixAttempts) || maxFixAttempts < 0) {
+    throw new ConfigError(
+      `MAX_FIX_ATTEMPTS must be zero or a positive number, got: ${process.env.MAX_FIX_ATTEMPTS}`
+    );
+  }
+  if (maxFixAttempts > 0 && !verifyCommand) {
+    throw new ConfigError('MAX_FIX_ATTEMPTS requires VERIFY_COMMAND');
+  }
+
+  const baseRef = process.env.BASE_REF || undefined;
+  const cloneDepth = process.env.CLONE_DEPTH
+    ? Number.parseInt(process.env.CLONE_DEPTH, 10)
+    : undefined;
+  if (
+    cloneDepth !== undefined &&
+    (Number.isNaN(cloneDepth) || cloneDepth <= 0)
+  ) {
+    throw new ConfigError(
+      `CLONE_DEPTH must be a positive number, got: ${process.env.CLONE_DEPTH}`
+    );
+  }
+  const cloneFilter = process.env.CLONE_FILTER || undefined;
+  const submodules = process.env.SUBMODULES === 'true';
+
+  const pushChanges = process.env.PUSH_CHANGES !== 'false';
+  const branchTemplate = process.env.BRANCH_NAME || 'claude/{containerID}';
+  const commitMessage = process.env.COMMIT_MESSAGE || 'Claude Code: {task}';
+  const gitAuthorName = process.env.GIT_AUTHOR_NAME || 'Claude Code';
+  const gitAuthorEmail =
+    process.env.GIT_AUTHOR_EMAIL || 'claude-code@users.noreply.github.com';
+  const exportPatch = process.env.EXPORT_PATCH !== 'false';
+  const patchMaxBytes = Number.parseInt(
+    process.env.PATCH_MAX_BYTES || '1048576',
+    10
+  );
 
   const allowedTools = process.env.ALLOWED_TOOLS;
   const disallowedTools = process.env.DISALLOWED_TOOLS;
@@ -85,7 +218,29 @@ export function loadConfig(): Config {
     timeout,
     logLevel,
     workspaceDir,
+    batchID,
+    variables,
+    maxCostUsd,
+    setupCommands,
+    autoSetup,
+    setupTimeout,
+    verifyCommand,
+    verifyTimeout,
+    onVerifyFailure,
+    maxFixAttempts,
     githubToken,
+    wsToken,
+    baseRef,
+    cloneDepth,
+    cloneFilter,
+    submodules,
+    pushChanges,
+    branchTemplate,
+    commitMessage,
+    gitAuthorName,
+    gitAuthorEmail,
+    exportPatch,
+    patchMaxBytes,
     allowedTools,
     disallowedTools,
     maxTurns,
@@ -98,6 +253,33 @@ export function loadConfig(): Config {
   };
 }
 
+/**
+ * Parse TASK_VARIABLES, a JSON object of string values
+ */
+function parseVariables(value?: string): Record<string, string> | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw new ConfigError(`TASK_VARIABLES must be JSON, got: ${value}`);
+  }
+  if (
+    !parsed ||
+    typeof parsed !== 'object' ||
+    Array.isArray(parsed) ||
+    !Object.values(parsed).every((entry) => typeof entry === 'string')
+  ) {
+    throw new ConfigError(
+      'TASK_VARIABLES must be a JSON object of string values'
+    );
+  }
+  return parsed as Record<string, string>;
+}
+
 /**
  * Get a required environment variable or throw an error
  */
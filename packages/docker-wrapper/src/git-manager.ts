@@ -2,6 +2,7 @@ import fs from 'node:fs';
 import path from 'node:path';
 import { simpleGit } from 'simple-git';
 import type { SimpleGit, SimpleGitProgressEvent } from 'simple-git';
+import type { ArtifactData, FileStat } from './types';
 
 export interface GitManagerOptions {
   workspaceDir: string;
@@ -10,6 +11,35 @@ export interface GitManagerOptions {
 
 export type ProgressCallback = (event: SimpleGitProgressEvent) => void;
 
+export interface CloneOptions {
+  ref?: string; // Branch, tag, commit SHA or ref such as refs/pull/123/head
+  depth?: number; // Shallow clone with this many commits of history
+  filter?: string; // Partial clone filter, e.g. blob:none
+  submodules?: boolean; // Initialise submodules recursively
+}
+
+export interface CommitAuthor {
+  name: string;
+  email: string;
+}
+
+export interface PublishResult {
+  branch: string;
+  commitSha: string;
+}
+
+/**
+ * Replace `{name}` placeholders in a template. Unknown placeholders are kept.
+ */
+export function renderTemplate(
+  template: string,
+  values: Record<string, string>
+): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in values ? values[name] : placeholder
+  );
+}
+
 /**
  * Manages Git operations for the docker wrapper
  */
@@ -17,6 +47,8 @@ export class GitManager {
   private git: SimpleGit;
   private workspaceDir: string;
   private githubToken?: string;
+  private workingBranch?: string;
+  private baseCommit?: string;
 
   constructor(options: GitManagerOptions) {
     this.workspaceDir = options.workspaceDir;
@@ -36,23 +68,32 @@ export class GitManager {
   }
 
   /**
-   * Modifies an HTTPS URL to include the GitHub token
+   * Supplies the GitHub token for every URL on the repository's host,
+   * including submodules. The token is passed to git through its
+   * environment as an `insteadOf` rewrite, so it is not stored in the
+   * clone's remote URLs or visible in git's arguments.
    */
-  private addTokenToUrl(url: string): string {
-    if (!this.githubToken || this.isSshUrl(url)) {
-      return url;
+  private useToken(repoUrl: string): void {
+    const host = repoUrl.match(/^(https:\/\/[^\/]+\/)/)?.[1];
+    if (!host || !this.githubToken) {
+      return;
     }
 
-    const httpsPattern = /^https:\/\/([^\/]+)\/(.+)$/;
-    const match = url.match(httpsPattern);
-
-    if (match) {
-      const domain = match[1];
-      const repoPath = match[2];
-      return `https://${this.githubToken}@${domain}/${repoPath}`;
-    }
+    this.git.env({
+      ...process.env,
+      GIT_CONFIG_COUNT: '1',
+      GIT_CONFIG_KEY_0: `url.${host.replace('https://', `https://${this.githubToken}@`)}.insteadOf`,
+      GIT_CONFIG_VALUE_0: host,
+    });
+  }
 
-    return url;
+  /**
+   * Removes the GitHub token from git output before it is reported
+   */
+  private redactToken(text: string): string {
+    return this.githubToken
+      ? text.split(this.githubToken).join('[REDACTED]')
+      : text;
   }
 
   /**
@@ -60,10 +101,11 @@ export class GitManager {
    */
   public async cloneRepository(
     repoUrl: string,
-    progressCallback?: ProgressCallback
+    progressCallback?: ProgressCallback,
+    options: CloneOptions = {}
   ): Promise<string> {
     try {
-      const authUrl = this.addTokenToUrl(repoUrl);
+      this.useToken(repoUrl);
 
       if (progressCallback) {
         this.git.outputHandler((command, stdout, stderr, args) => {
@@ -113,7 +155,37 @@ export class GitManager {
         });
       }
 
-      await this.git.clone(authUrl, this.workspaceDir);
+      const fetchArgs = [
+        ...(options.depth ? [`--depth=${options.depth}`] : []),
+        ...(options.filter ? [`--filter=${options.filter}`] : []),
+      ];
+
+      if (options.ref) {
+        // Refs such as SHAs and pull request heads cannot be passed to
+        // --branch, so they are fetched into the clone and checked out
+        await this.git.clone(repoUrl, this.workspaceDir, [
+          '--no-checkout',
+          ...fetchArgs,
+        ]);
+        try {
+          await this.git.fetch(['origin', options.ref, ...fetchArgs]);
+        } catch (error) {
+          const message =
+            error instanceof Error ? error.message : String(error);
+          throw new Error(
+            `Cannot fetch ref ${options.ref}: ${this.redactToken(message)}`
+          );
+        }
+        await this.git.checkout(['--detach', 'FETCH_HEAD']);
+      } else {
+        await this.git.clone(repoUrl, this.workspaceDir, fetchArgs);
+      }
+
+      if (options.submodules) {
+        await this.initSubmodules(options.depth);
+      }
+
+      this.baseCommit = await this.getCurrentCommit();
       return this.workspaceDir;
     } catch (error) {
       await this.cleanWorkspace();
@@ -121,11 +193,32 @@ export class GitManager {
     }
   }
 
+  /**
+   * Initialises submodules recursively. Submodules on the repository's host
+   * are fetched with the same token.
+   */
+  private async initSubmodules(depth?: number): Promise<void> {
+    try {
+      await this.git.raw([
+        'submodule',
+        'update',
+        '--init',
+        '--recursive',
+        ...(depth ? [`--depth=${depth}`] : []),
+      ]);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(
+        `Failed to initialise submodules: ${this.redactToken(message)}`
+      );
+    }
+  }
+
   /**
    * Validates that a repository is accessible
    */
   public async validateRepository(repoUrl: string): Promise<boolean> {
-    const authUrl = this.addTokenToUrl(repoUrl);
+    this.useToken(repoUrl);
 
     try {
       // For SSH URLs, we can't easily validate without attempting to clone
@@ -136,7 +229,7 @@ export class GitManager {
       }
 
       // For HTTPS URLs, try ls-remote to check access
-      await this.git.listRemote([authUrl]);
+      await this.git.listRemote([repoUrl]);
       return true;
     } catch (error) {
       return false;
@@ -179,4 +272,163 @@ export class GitManager {
     const result = await this.git.revparse(['HEAD']);
     return result.trim();
   }
+
+  /**
+   * Creates and checks out the branch that changes will be committed to
+   */
+  public async createBranch(name: string): Promise<void> {
+    try {
+      await this.git.raw(['check-ref-format', '--branch', name]);
+    } catch {
+      throw new Error(`Invalid branch name: ${name}`);
+    }
+
+    await this.git.checkoutLocalBranch(name);
+    this.workingBranch = name;
+  }
+
+  /**
+   * Keeps paths out of commits without touching the repository's .gitignore
+   */
+  public excludeFromCommits(patterns: string[]): void {
+    const excludeFile = path.join(this.workspaceDir, '.git', 'info', 'exclude');
+    fs.mkdirSync(path.dirname(excludeFile), { recursive: true });
+    fs.appendFileSync(excludeFile, `\n${patterns.join('\n')}\n`);
+  }
+
+  /**
+   * Untracked paths that are not ignored, with untracked directories
+   * collapsed to a single entry ending in `/`
+   */
+  public async untrackedPaths(): Promise<string[]> {
+    const output = await this.git.raw([
+      'ls-files',
+      '--others',
+      '--exclude-standard',
+      '--directory',
+      '-z',
+    ]);
+    return output.split('\0').filter((entry) => entry !== '');
+  }
+
+  /**
+   * Stages and commits all changes. Returns the new commit hash, or null if
+   * there was nothing to commit.
+   */
+  public async commitChanges(
+    message: string,
+    author: CommitAuthor
+  ): Promise<string | null> {
+    await this.git.add(['-A']);
+
+    const status = await this.git.status();
+    if (status.isClean()) {
+      return null;
+    }
+
+    await this.git.addConfig('user.name', author.name);
+    await this.git.addConfig('user.email', author.email);
+    await this.git.commit(message);
+    return this.getCurrentCommit();
+  }
+
+  /**
+   * The commit that was cloned, which the run's changes are relative to
+   */
+  private requireBaseCommit(): string {
+    if (!this.baseCommit) {
+      throw new Error('Repository has not been cloned');
+    }
+    return this.baseCommit;
+  }
+
+  /**
+   * Whether HEAD has moved past the cloned commit
+   */
+  public async hasNewCommits(): Promise<boolean> {
+    return (await this.getCurrentCommit()) !== this.requireBaseCommit();
+  }
+
+  /**
+   * Pushes the working branch
+   */
+  public async pushBranch(repoUrl: string): Promise<PublishResult> {
+    if (!this.workingBranch) {
+      throw new Error('No working branch was created before the run');
+    }
+
+    this.useToken(repoUrl);
+    try {
+      await this.git.push(repoUrl, `HEAD:refs/heads/${this.workingBranch}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(
+        `Failed to push ${this.workingBranch}: ${this.redactToken(message)}`
+      );
+    }
+
+    return {
+      branch: this.workingBranch,
+      commitSha: await this.getCurrentCommit(),
+    };
+  }
+
+  /**
+   * Builds a patch artifact of the committed changes since the cloned
+   * commit. Diff content is dropped if it exceeds `maxBytes`.
+   */
+  public async createPatch(maxBytes: number): Promise<ArtifactData> {
+    const baseCommit = this.requireBaseCommit();
+    const headCommit = await this.getCurrentCommit();
+
+    // Renames are listed as a deletion and an addition, rather than as
+    // `{old => new}` paths, and -z keeps unusual file names unquoted
+    const numstat = await this.git.raw([
+      'diff',
+      '--numstat',
+      '-z',
+      '--no-renames',
+      baseCommit,
+      headCommit,
+    ]);
+    const files = numstat
+      .split('\0')
+      .filter((entry) => entry !== '')
+      .map((entry): FileStat => {
+        const [added, removed, ...rest] = entry.split('\t');
+        const binary = added === '-' && removed === '-';
+        return {
+          path: rest.join('\t'),
+          added: binary ? 0 : Number.parseInt(added, 10),
+          removed: binary ? 0 : Number.parseInt(removed, 10),
+          binary,
+        };
+      });
+
+    const diff = await this.git.raw([
+      'diff',
+      '--binary',
+      baseCommit,
+      headCommit,
+    ]);
+    const patches = await this.git.raw([
+      'format-patch',
+      '--stdout',
+      '--binary',
+      `${baseCommit}..${headCommit}`,
+    ]);
+
+    const truncated =
+      Buffer.byteLength(diff) + Buffer.byteLength(patches) > maxBytes;
+
+    return {
+      kind: 'patch',
+      baseCommit,
+      headCommit,
+      files,
+      diff: truncated ? undefined : diff,
+      patches: truncated ? undefined : patches,
+      truncated,
+    };
+  }
 }
@@ -5,18 +5,52 @@
 
 import fs from 'node:fs';
 import { ClaudeCodeRunner } from './claude-code-runner';
+import type { ClaudeCodeResult, ClaudeRunOptions } from './claude-code-runner';
 import { config } from './config';
-import { GitManager } from './git-manager';
+import { GitManager, renderTemplate } from './git-manager';
 import { LogStreamer } from './log-streamer';
+import type { ProcessOutput } from './process-runner';
+import { RunLifecycle, statusForPhase } from './run-lifecycle';
+import { detectSetupCommands } from './setup-detector';
+import { ShellCommandRunner } from './shell-command';
+import type { ShellCommandResult } from './shell-command';
+import type {
+  AttemptResult,
+  ControlAckData,
+  ControlData,
+  RunOutcome,
+  RunPhase,
+  RunUsage,
+  VerificationResult,
+} from './types';
+import { sumUsage } from './usage-tracker';
+import type { CompleteDetails } from './websocket-client';
 
-process.on('SIGINT', handleShutdown);
-process.on('SIGTERM', handleShutdown);
+/**
+ * Claude's work on the task, over every attempt
+ */
+interface Execution {
+  result: ClaudeCodeResult; // The last attempt's
+  verification?: VerificationResult; // The last attempt's
+  attempts: AttemptResult[];
+  usage: RunUsage; // Across all attempts
+  duration: number;
+}
+
+const MAX_FEEDBACK_LINES = 200; // Verification output shown to Claude
+
+process.on('SIGINT', handleSignal);
+process.on('SIGTERM', handleSignal);
 process.on('uncaughtException', handleError);
 process.on('unhandledRejection', handleError);
 
 let gitManager: GitManager;
 let claudeCodeRunner: ClaudeCodeRunner;
 let logStreamer: LogStreamer;
+let shellRunner: ShellCommandRunner | undefined;
+let runResult: ClaudeCodeResult | undefined;
+let stopRequested = false;
+const lifecycle = new RunLifecycle();
 
 /**
  * Main execution function
@@ -28,15 +62,30 @@ async function main() {
     logStreamer = new LogStreamer({
       containerID: config.containerID,
       wsServerUrl: config.wsServer,
+      wsToken: config.wsToken,
     });
 
     logStreamer.on('error', handleError);
-    logStreamer.sendStatus('starting', 'Initializing container');
+    logStreamer.on('control', handleControl);
+    logStreamer.sendStatus(
+      'starting',
+      'Initializing container',
+      lifecycle.phase
+    );
     await logStreamer.connect();
     logStreamer.sendLog(
       'info',
       `Connected to WebSocket server: ${config.wsServer}`
     );
+    logStreamer.sendRunInfo({
+      repoUrl: config.repoUrl,
+      task: config.task,
+      model: config.model,
+      baseRef: config.baseRef,
+      batchID: config.batchID,
+      variables: config.variables,
+      startedAt: new Date().toISOString(),
+    });
     logStreamer.sendLog('info', `Running task: ${config.task}`);
 
     logStreamer.startStatsReporting();
@@ -52,16 +101,55 @@ async function main() {
       throw new Error(`Repository is not accessible: ${config.repoUrl}`);
     }
 
-    logStreamer.sendStatus('running', 'Cloning repository');
-    logStreamer.sendLog('info', `Cloning repository to ${config.workspaceDir}`);
+    enterPhase('cloning', 'Cloning repository');
+    logStreamer.sendLog(
+      'info',
+      `Cloning ${config.baseRef ?? 'default branch'} to ${config.workspaceDir}`
+    );
 
-    await gitManager.cloneRepository(config.repoUrl, (event) => {
-      logStreamer.sendLog('info', `Git progress: ${event.progress}%`);
-    });
+    await gitManager.cloneRepository(
+      config.repoUrl,
+      (event) => {
+        logStreamer.sendLog('info', `Git progress: ${event.progress}%`);
+      },
+      {
+        ref: config.baseRef,
+        depth: config.cloneDepth,
+        filter: config.cloneFilter,
+        submodules: config.submodules,
+      }
+    );
 
     const commitHash = await gitManager.getCurrentCommit();
     logStreamer.sendLog('info', `Repository cloned, commit: ${commitHash}`);
 
+    // The runner keeps its prompt and output files in the workspace
+    gitManager.excludeFromCommits(['.tmp/']);
+
+    if (config.pushChanges) {
+      const branch = renderTemplate(config.branchTemplate, {
+        containerID: config.containerID,
+      });
+      await gitManager.createBranch(branch);
+      logStreamer.sendLog('info', `Working on branch ${branch}`);
+    }
+
+    shellRunner = new ShellCommandRunner({
+      workingDirectory: config.workspaceDir,
+    });
+    shellRunner.on('output', (output) => {
+      logStreamer.streamOutput(output, { phase: lifecycle.phase });
+    });
+
+    const failedSetup = await runSetup();
+    if (failedSetup) {
+      const message = describeCommandResult('Setup', failedSetup);
+      logStreamer.sendError(message, 'SETUP_FAILED', { ...failedSetup });
+      finishRun('failed', 1, message);
+      process.exitCode = 1;
+      return;
+    }
+
     claudeCodeRunner = new ClaudeCodeRunner({
       workingDirectory: config.workspaceDir,
       task: config.task,
@@ -75,6 +163,7 @@ async function main() {
       claudeEnv: config.claudeEnv,
       fallbackModel: config.fallbackModel,
       model: config.model,
+      maxCostUsd: config.maxCostUsd,
     });
 
     claudeCodeRunner.on('output', (output) => {
@@ -85,31 +174,98 @@ async function main() {
       logStreamer.sendError(error.message);
     });
 
-    logStreamer.sendStatus('running', 'Executing Claude Code');
-    logStreamer.sendLog('info', 'Starting Claude Code execution');
+    if (stopRequested) {
+      finishRun('cancelled', 143, 'Task cancelled before Claude started');
+      process.exitCode = 143;
+      return;
+    }
 
-    const result = await claudeCodeRunner.run((output) => {
-      logStreamer.streamOutput(output);
-    });
+    const execution = await executeTask();
+    const { result, verification, usage, duration } = execution;
+    const attempts = config.maxFixAttempts > 0 ? execution.attempts : undefined;
+    runResult = result;
 
-    if (result.success) {
-      logStreamer.sendStatus('completed', 'Task completed successfully');
-      logStreamer.sendComplete(
-        result.exitCode,
-        'Task completed successfully',
-        result.duration
-      );
-    } else {
-      logStreamer.sendStatus(
-        'failed',
-        `Task failed with exit code ${result.exitCode}`
+    if (result.outcome === 'budget_exceeded') {
+      logStreamer.sendError(
+        `Cost budget of $${config.maxCostUsd} exceeded`,
+        'BUDGET_EXCEEDED'
       );
-      logStreamer.sendComplete(
-        result.exitCode,
-        `Task failed with exit code ${result.exitCode}`,
-        result.duration
+    }
+
+    if (result.outcome !== 'completed') {
+      // Stopping on request or at the budget is graceful: the work done so
+      // far is still published
+      let details: CompleteDetails = { usage, attempts };
+      let message = describeOutcome(result);
+      if (
+        (result.outcome === 'cancelled' && stopRequested) ||
+        result.outcome === 'budget_exceeded'
+      ) {
+        const published = await publishChanges();
+        details = { ...details, ...published.details };
+        message = withPublishError(message, published.error);
+      }
+
+      finishRun(result.outcome, result.exitCode, message, duration, details);
+      process.exitCode = result.exitCode;
+      return;
+    }
+
+    if (stopRequested) {
+      // Claude finished but verification was stopped: publish its work
+      const published = await publishChanges();
+      finishRun(
+        'cancelled',
+        143,
+        withPublishError('Task cancelled during verification', published.error),
+        duration,
+        { ...published.details, usage, verification, attempts }
       );
+      process.exitCode = 143;
+      return;
     }
+
+    if (verification && !verification.passed) {
+      const message = describeCommandResult('Verification', verification);
+      logStreamer.sendError(message, 'VERIFICATION_FAILED', {
+        ...verification,
+      });
+
+      if (config.onVerifyFailure === 'fail') {
+        finishRun('failed', 1, message, duration, {
+          usage,
+          verification,
+          attempts,
+        });
+        process.exitCode = 1;
+        return;
+      }
+      if (config.onVerifyFailure === 'skip-publish') {
+        finishRun(
+          'completed',
+          result.exitCode,
+          `Task completed. ${message}; changes not published`,
+          duration,
+          { usage, verification, attempts }
+        );
+        return;
+      }
+    }
+
+    // A failure to publish is reported but does not fail Claude's work
+    const published = await publishChanges();
+    finishRun(
+      'completed',
+      result.exitCode,
+      withPublishError(
+        verification
+          ? `Task completed. ${describeCommandResult('Verification', verification)}`
+          : 'Task completed successfully',
+        published.error
+      ),
+      duration,
+      { ...published.details, usage, verification, attempts }
+    );
   } catch (error) {
     handleError(error);
   } finally {
@@ -118,10 +274,385 @@ async function main() {
 }
 
 /**
- * Handle errors
+ * Run Claude, then verify its changes. With MAX_FIX_ATTEMPTS, the output of
+ * failed verification is sent back to Claude in the same session until
+ * verification passes or the attempts run out.
+ */
+async function executeTask(): Promise<Execution> {
+  const startTime = Date.now();
+  const attempts: AttemptResult[] = [];
+  let runOptions: ClaudeRunOptions = {};
+
+  for (;;) {
+    const attempt = attempts.length + 1;
+    enterPhase(
+      'executing',
+      attempt === 1
+        ? 'Executing Claude Code'
+        : `Fix attempt ${attempt - 1} of ${config.maxFixAttempts}`
+    );
+    logStreamer.sendLog('info', 'Starting Claude Code execution');
+
+    const result = await claudeCodeRunner.run(
+      (output) => {
+        logStreamer.streamOutput(output);
+      },
+      (event) => {
+        logStreamer.streamEvent(event);
+      },
+      runOptions
+    );
+    logStreamer.sendLog('info', `Usage: ${describeUsage(result.usage)}`);
+
+    let verification: VerificationResult | undefined;
+    let verifyOutput: string[] = [];
+    if (
+      config.verifyCommand &&
+      result.outcome === 'completed' &&
+      !stopRequested
+    ) {
+      ({ verification, output: verifyOutput } = await verifyChanges(
+        config.verifyCommand
+      ));
+    }
+
+    attempts.push({
+      attempt,
+      outcome: result.outcome,
+      exitCode: result.exitCode,
+      duration: result.duration,
+      usage: result.usage,
+      verification,
+    });
+    const usage = sumUsage(attempts.map((entry) => entry.usage));
+
+    if (
+      !verification ||
+      verification.passed ||
+      stopRequested ||
+      attempt > config.maxFixAttempts
+    ) {
+      return {
+        result,
+        verification,
+        attempts,
+        usage,
+        duration: Date.now() - startTime,
+      };
+    }
+
+    logStreamer.sendLog(
+      'info',
+      `${describeCommandResult('Verification', verification)}; asking Claude to fix it`
+    );
+    runOptions = {
+      prompt: buildFixPrompt(verification, verifyOutput, result.sessionId),
+      resume: true,
+      spentUsd: usage.costUsd,
+    };
+  }
+}
+
+/**
+ * Follow-up prompt asking Claude to fix what made verification fail
+ */
+function buildFixPrompt(
+  verification: VerificationResult,
+  output: string[],
+  sessionId?: string
+): string {
+  const lines = [
+    `Your changes were checked by running \`${verification.command}\` and it ${
+      verification.timedOut
+        ? 'timed out'
+        : `failed with exit code ${verification.exitCode}`
+    }.`,
+    'Fix the cause so that the command passes. Do not disable or weaken the checks.',
+  ];
+  if (!sessionId) {
+    // The previous session may not be resumed, so restate the task
+    lines.push('', 'The original task was:', config.task);
+  }
+  if (output.length > 0) {
+    lines.push(
+      '',
+      `Last ${output.length} line(s) of output:`,
+      '```',
+      ...output,
+      '```'
+    );
+  }
+  return lines.join('\n');
+}
+
+/**
+ * The setup commands to run: those configured, otherwise those detected
+ * from the repository's lockfiles when AUTO_SETUP is enabled
+ */
+function resolveSetupCommands(): string[] {
+  if (config.setupCommands.length > 0 || !config.autoSetup) {
+    return config.setupCommands;
+  }
+
+  const detected = detectSetupCommands(config.workspaceDir);
+  for (const tool of detected.missingTools) {
+    logStreamer.sendLog(
+      'info',
+      `Skipping detected ${tool} setup: ${tool} is not installed`
+    );
+  }
+  if (detected.commands.length > 0) {
+    logStreamer.sendLog(
+      'info',
+      `Detected setup commands: ${detected.commands.join('; ')}`
+    );
+  }
+  return detected.commands;
+}
+
+/**
+ * Run the setup commands in order, streaming their output as the setup
+ * phase. Returns the command that failed, if any. Files the commands create,
+ * such as installed dependencies, are kept out of Claude's commit.
+ */
+async function runSetup(): Promise<ShellCommandResult | undefined> {
+  const commands = resolveSetupCommands();
+  if (commands.length === 0 || !shellRunner) {
+    return undefined;
+  }
+
+  enterPhase('setup', `Running ${commands.length} setup command(s)`);
+  for (const command of commands) {
+    logStreamer.sendLog('info', `$ ${command}`);
+    const result = await shellRunner.run(command, config.setupTimeout);
+    if (stopRequested) {
+      return undefined;
+    }
+    if (result.exitCode !== 0) {
+      return result;
+    }
+  }
+
+  const created = await gitManager.untrackedPaths();
+  if (created.length > 0) {
+    gitManager.excludeFromCommits(created.map((entry) => `/${entry}`));
+  }
+  logStreamer.sendLog('info', 'Setup complete');
+  return undefined;
+}
+
+/**
+ * Run the verification command in the workspace, streaming its output as
+ * the verifying phase
+ */
+async function verifyChanges(
+  command: string
+): Promise<{ verification: VerificationResult; output: string[] }> {
+  enterPhase('verifying', `Verifying: ${command}`);
+
+  // Keep the end of the output to show Claude if verification fails
+  const output: string[] = [];
+  const collect = (line: ProcessOutput) => {
+    output.push(line.line);
+    if (output.length > MAX_FEEDBACK_LINES) {
+      output.shift();
+    }
+  };
+  shellRunner?.on('output', collect);
+
+  const result = shellRunner
+    ? await shellRunner.run(command, config.verifyTimeout)
+    : { command, exitCode: 1, duration: 0 };
+  shellRunner?.off('output', collect);
+
+  const verification = { ...result, passed: result.exitCode === 0 };
+  if (verification.passed) {
+    logStreamer.sendLog(
+      'info',
+      describeCommandResult('Verification', verification),
+      { ...verification }
+    );
+  }
+  return { verification, output };
+}
+
+/**
+ * Commit Claude's changes, then send them as a patch artifact and/or push
+ * the working branch. Returns the branch and commit to report on
+ * completion. Failures are reported as PUBLISH_FAILED errors instead of
+ * thrown, so they do not change the run's outcome; the patch is exported
+ * even when the push fails.
+ */
+async function publishChanges(): Promise<{
+  details: CompleteDetails;
+  error?: string;
+}> {
+  if (!config.pushChanges && !config.exportPatch) {
+    return { details: {} };
+  }
+
+  const errors: string[] = [];
+  const attempt = async <T>(
+    label: string,
+    step: () => Promise<T>
+  ): Promise<T | undefined> => {
+    try {
+      return await step();
+    } catch (error) {
+      const message = `${label} failed: ${
+        error instanceof Error ? error.message : String(error)
+      }`;
+      logStreamer.sendError(message, 'PUBLISH_FAILED');
+      errors.push(message);
+      return undefined;
+    }
+  };
+  const failed = () => ({ details: {}, error: errors.join('; ') });
+
+  enterPhase('publishing', 'Publishing changes');
+  const hasCommits = await attempt('Commit', async () => {
+    await gitManager.commitChanges(
+      renderTemplate(config.commitMessage, {
+        containerID: config.containerID,
+        task: summariseTask(config.task),
+      }),
+      { name: config.gitAuthorName, email: config.gitAuthorEmail }
+    );
+    return gitManager.hasNewCommits();
+  });
+  if (hasCommits === undefined) {
+    return failed();
+  }
+  if (!hasCommits) {
+    logStreamer.sendLog('info', 'No changes to publish');
+    return { details: {} };
+  }
+
+  if (config.exportPatch) {
+    await attempt('Patch export', async () => {
+      const artifact = await gitManager.createPatch(config.patchMaxBytes);
+      logStreamer.sendArtifact(artifact);
+      logStreamer.sendLog(
+        'info',
+        `Exported patch for ${artifact.files.length} changed file(s)${
+          artifact.truncated
+            ? ` (content omitted, over ${config.patchMaxBytes} bytes)`
+            : ''
+        }`
+      );
+    });
+  }
+
+  if (!config.pushChanges) {
+    return errors.length > 0 ? failed() : { details: {} };
+  }
+
+  const published = await attempt('Push', () =>
+    gitManager.pushBranch(config.repoUrl)
+  );
+  if (!published) {
+    return failed();
+  }
+  logStreamer.sendLog(
+    'info',
+    `Pushed ${published.commitSha} to branch ${published.branch}`
+  );
+  return {
+    details: published,
+    error: errors.length > 0 ? errors.join('; ') : undefined,
+  };
+}
+
+/**
+ * Add why publishing failed to a completion message
+ */
+function withPublishError(message: string, error?: string): string {
+  return error ? `${message}. ${error}` : message;
+}
+
+/**
+ * Move the run to a new phase and report it
+ */
+function enterPhase(phase: RunPhase, message: string): void {
+  lifecycle.transition(phase);
+  logStreamer?.sendStatus(statusForPhase(phase), message, phase);
+}
+
+/**
+ * Report the run's outcome, then complete with the per-phase timings. Only
+ * the first outcome is reported, e.g. when a signal ends the run while main
+ * is still publishing.
+ */
+function finishRun(
+  outcome: RunOutcome,
+  exitCode: number,
+  message: string,
+  duration?: number,
+  details: CompleteDetails = {}
+): void {
+  if (lifecycle.isFinished()) {
+    return;
+  }
+  enterPhase(outcome, message);
+  logStreamer?.sendComplete(exitCode, message, duration, {
+    ...details,
+    outcome,
+    phases: lifecycle.getTimings(),
+  });
+}
+
+/**
+ * Completion message for a run that did not complete
+ */
+function describeOutcome(result: ClaudeCodeResult): string {
+  switch (result.outcome) {
+    case 'budget_exceeded':
+      return `Task stopped: cost budget of $${config.maxCostUsd} exceeded`;
+    case 'cancelled':
+      return 'Task cancelled';
+    case 'timed_out':
+      return `Task timed out after ${Math.round(result.duration / 1000)}s`;
+    default:
+      return `Task failed with exit code ${result.exitCode}`;
+  }
+}
+
+/**
+ * One-line summary of a setup or verification command's result
+ */
+function describeCommandResult(
+  label: string,
+  result: ShellCommandResult
+): string {
+  if (result.exitCode === 0) {
+    return `${label} passed (${result.command})`;
+  }
+  if (result.timedOut) {
+    return `${label} timed out after ${Math.round(result.duration / 1000)}s (${result.command})`;
+  }
+  return `${label} failed with exit code ${result.exitCode} (${result.command})`;
+}
+
+/**
+ * Summarise token usage and cost for the run log
+ */
+function describeUsage(usage: RunUsage): string {
+  const cost = `$${usage.costUsd.toFixed(4)}${usage.estimated ? ' (estimated)' : ''}`;
+  return `${usage.numTurns} turn(s), ${usage.inputTokens} input / ${usage.outputTokens} output tokens, ${cost}`;
+}
+
+/**
+ * First line of the task, shortened for use in a commit subject
+ */
+function summariseTask(task: string): string {
+  const firstLine = task.trim().split('\n')[0];
+  return firstLine.length > 72 ? `${firstLine.slice(0, 69)}...` : firstLine;
+}
+
+/**
+ * Handle errors: fail the run, reporting its completion, and exit
  */
 function handleError(error: unknown) {
-  console.error('RAW ERROR OBJECT:', error);
   if (error instanceof AggregateError) {
     for (const inner of error.errors) {
       console.error(' └─ inner:', inner);
@@ -134,11 +665,114 @@ function handleError(error: unknown) {
 
   if (logStreamer) {
     logStreamer.sendError(msg);
-    logStreamer.sendStatus('failed', msg);
   }
+  finishRun('failed', 1, msg);
   handleShutdown(1);
 }
 
+/**
+ * Act on a control request routed from a viewer, and acknowledge it
+ */
+function handleControl(control: ControlData) {
+  const ack = (
+    accepted: boolean,
+    message: string,
+    extra: Partial<ControlAckData> = {}
+  ) => {
+    logStreamer.sendControlAck({
+      action: control.action,
+      requestId: control.requestId,
+      accepted,
+      message,
+      ...extra,
+    });
+  };
+
+  switch (control.action) {
+    case 'CANCEL': {
+      if (runResult) {
+        ack(false, 'Claude has already finished');
+        return;
+      }
+      if (stopRequested) {
+        ack(false, 'Stop already requested');
+        return;
+      }
+
+      stopRequested = true;
+      logStreamer.sendLog(
+        'info',
+        `Stop requested${control.reason ? `: ${control.reason}` : ''}`
+      );
+
+      if (claudeCodeRunner?.isRunning()) {
+        ack(true, 'Stopping Claude; work so far will be published');
+        claudeCodeRunner.kill().catch(handleError);
+      } else if (lifecycle.phase === 'verifying') {
+        ack(true, 'Stopping verification; work so far will be published');
+        shellRunner?.kill();
+      } else if (lifecycle.phase === 'setup') {
+        ack(true, 'Stopping setup; Claude will not start');
+        shellRunner?.kill();
+      } else {
+        ack(true, 'Run will stop before Claude starts');
+      }
+      return;
+    }
+    case 'EXTEND_TIMEOUT': {
+      const extendMs = control.extendMs;
+      if (typeof extendMs !== 'number' || !(extendMs > 0)) {
+        ack(false, 'extendMs must be a positive number of milliseconds');
+        return;
+      }
+
+      const deadline = claudeCodeRunner?.extendTimeout(extendMs);
+      if (!deadline) {
+        ack(false, 'Claude is not running');
+        return;
+      }
+      ack(true, `Timeout extended by ${Math.round(extendMs / 1000)}s`, {
+        deadline: deadline.toISOString(),
+      });
+      return;
+    }
+    case 'PING':
+      ack(
+        true,
+        claudeCodeRunner?.isRunning()
+          ? 'Claude is running'
+          : 'Container is alive'
+      );
+      return;
+    default:
+      ack(false, `Unknown control action: ${control.action}`);
+  }
+}
+
+/**
+ * Cancel the run on SIGINT/SIGTERM. While Claude or a setup or verification
+ * command is running, main publishes the work done so far and reports the
+ * cancellation once it has been terminated.
+ */
+async function handleSignal(signal: NodeJS.Signals) {
+  console.log(`Received ${signal}, cancelling run`);
+
+  if (claudeCodeRunner?.isRunning()) {
+    stopRequested = true;
+    await claudeCodeRunner.kill();
+    return;
+  }
+  if (shellRunner?.isRunning()) {
+    stopRequested = true;
+    shellRunner.kill();
+    return;
+  }
+
+  const exitCode = signal === 'SIGINT' ? 130 : 143;
+  finishRun('cancelled', exitCode, `Task cancelled (${signal})`);
+  await handleShutdown(exitCode);
+}
+
 /**
  * Handle graceful shutdown
  */
@@ -152,8 +786,9 @@ async function handleShutdown(exitCode = 0) {
  */
 async function cleanup() {
   if (claudeCodeRunner) {
-    claudeCodeRunner.kill();
+    await claudeCodeRunner.kill();
   }
+  shellRunner?.kill();
 
   if (logStreamer) {
     logStreamer.stopStatsReporting();
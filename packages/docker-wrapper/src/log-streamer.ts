@@ -8,11 +8,22 @@ import type { ParsedOutput } from './output-parser';
 import { OutputType } from './output-parser';
 import type { ProcessOutput } from './process-runner';
 import type { ProcessStats } from './process-runner';
+import type {
+  ArtifactData,
+  ClaudeEventData,
+  ControlAckData,
+  ControlData,
+  RunInfoData,
+  RunPhase,
+  StatusData,
+} from './types';
 import { WebSocketClient } from './websocket-client';
+import type { CompleteDetails } from './websocket-client';
 
 export interface LogStreamerOptions {
   containerID: string;
   wsServerUrl: string;
+  wsToken?: string;
   statsInterval?: number; // How often to send stats (in ms)
 }
 
@@ -34,6 +45,7 @@ export class LogStreamer extends EventEmitter {
     this.wsClient = new WebSocketClient({
       serverUrl: options.wsServerUrl,
       containerID: options.containerID,
+      token: options.wsToken,
     });
 
     // Set up WebSocket event handlers
@@ -59,6 +71,10 @@ export class LogStreamer extends EventEmitter {
     this.wsClient.on('failed', (err) => {
       this.emit('failed', err);
     });
+
+    this.wsClient.on('control', (control: ControlData) => {
+      this.emit('control', control);
+    });
   }
 
   /**
@@ -100,8 +116,36 @@ export class LogStreamer extends EventEmitter {
   /**
    * Stream process output
    */
-  public streamOutput(output: ProcessOutput): void {
-    this.wsClient.sendLog(output.isError ? 'error' : 'info', output.line);
+  public streamOutput(
+    output: ProcessOutput,
+    metadata?: Record<string, unknown>
+  ): void {
+    this.wsClient.sendLog(
+      output.isError ? 'error' : 'info',
+      output.line,
+      metadata
+    );
+  }
+
+  /**
+   * Stream a structured Claude event
+   */
+  public streamEvent(event: ClaudeEventData): void {
+    this.wsClient.sendClaudeEvent(event);
+  }
+
+  /**
+   * Send a run artifact
+   */
+  public sendArtifact(artifact: ArtifactData): void {
+    this.wsClient.sendArtifact(artifact);
+  }
+
+  /**
+   * Answer a control request
+   */
+  public sendControlAck(ack: ControlAckData): void {
+    this.wsClient.sendControlAck(ack);
   }
 
   /**
@@ -146,10 +190,18 @@ export class LogStreamer extends EventEmitter {
    * Send status update
    */
   public sendStatus(
-    status: 'starting' | 'running' | 'completed' | 'failed',
-    message?: string
+    status: StatusData['status'],
+    message?: string,
+    phase?: RunPhase
   ): void {
-    this.wsClient.sendStatus(status, message);
+    this.wsClient.sendStatus(status, message, phase);
+  }
+
+  /**
+   * Send run metadata
+   */
+  public sendRunInfo(info: RunInfoData): void {
+    this.wsClient.sendRunInfo(info);
   }
 
   /**
@@ -180,9 +232,10 @@ export class LogStreamer extends EventEmitter {
   public sendComplete(
     exitCode: number,
     message?: string,
-    duration?: number
+    duration?: number,
+    details?: CompleteDetails
   ): void {
-    this.wsClient.sendComplete(exitCode, message, duration);
+    this.wsClient.sendComplete(exitCode, message, duration, details);
   }
 
   /**
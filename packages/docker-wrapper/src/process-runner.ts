@@ -7,6 +7,7 @@ export interface ProcessRunnerOptions {
   timeout?: number; // In milliseconds, default is 30 minutes
   workingDirectory?: string;
   env?: Record<string, string>;
+  handleSignals?: boolean; // Kill the process and exit on SIGINT/SIGTERM/SIGHUP, default true
 }
 
 export interface ProcessStats {
@@ -45,7 +46,9 @@ export class ProcessRunner extends EventEmitter {
     this.workingDirectory = options.workingDirectory || process.cwd();
     this.env = options.env || {};
 
-    this.handleProcessSignals();
+    if (options.handleSignals !== false) {
+      this.handleProcessSignals();
+    }
   }
 
   /**
@@ -77,6 +80,8 @@ export class ProcessRunner extends EventEmitter {
           cwd: this.workingDirectory,
           env: { ...process.env, ...this.env },
           stdio: ['ignore', 'pipe', 'pipe'],
+          // Lead a process group so kill() reaches the whole tree
+          detached: os.platform() !== 'win32',
         });
 
         this.setupTimeout();
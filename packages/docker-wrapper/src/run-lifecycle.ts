@@ -0,0 +1,114 @@
+/**
+ * Run lifecycle
+ * Validates phase transitions and records how long each phase took
+ */
+
+import type { PhaseTiming, RunOutcome, RunPhase, StatusData } from './types';
+
+const TERMINAL_PHASES: RunPhase[] = [
+  'completed',
+  'failed',
+  'cancelled',
+  'timed_out',
+  'budget_exceeded',
+];
+
+/**
+ * Non-terminal phases each phase may move to. Setup, verification and
+ * publishing are optional, failed verification may send the run back to
+ * executing, and any active phase may end in an outcome.
+ */
+const TRANSITIONS: Record<RunPhase, RunPhase[]> = {
+  provisioning: ['cloning'],
+  cloning: ['setup', 'executing'],
+  setup: ['executing'],
+  executing: ['verifying', 'publishing'],
+  verifying: ['executing', 'publishing'],
+  publishing: [],
+  completed: [],
+  failed: [],
+  cancelled: [],
+  timed_out: [],
+  budget_exceeded: [],
+};
+
+export class PhaseTransitionError extends Error {
+  constructor(from: RunPhase, to: RunPhase) {
+    super(`Invalid run phase transition: ${from} -> ${to}`);
+    this.name = 'PhaseTransitionError';
+  }
+}
+
+/**
+ * Whether a phase ends the run
+ */
+export function isTerminalPhase(phase: RunPhase): phase is RunOutcome {
+  return TERMINAL_PHASES.includes(phase);
+}
+
+/**
+ * The coarse status reported alongside a phase
+ */
+export function statusForPhase(phase: RunPhase): StatusData['status'] {
+  if (isTerminalPhase(phase)) {
+    return phase;
+  }
+  return phase === 'provisioning' ? 'starting' : 'running';
+}
+
+/**
+ * Tracks a run's phase, rejecting invalid transitions and timing each phase
+ */
+export class RunLifecycle {
+  private timings: PhaseTiming[];
+
+  constructor(startedAt = new Date()) {
+    this.timings = [
+      { phase: 'provisioning', startedAt: startedAt.toISOString() },
+    ];
+  }
+
+  /**
+   * The current phase
+   */
+  public get phase(): RunPhase {
+    return this.timings[this.timings.length - 1].phase;
+  }
+
+  /**
+   * Whether the run has reached an outcome
+   */
+  public isFinished(): boolean {
+    return isTerminalPhase(this.phase);
+  }
+
+  /**
+   * Whether the run may move from the current phase to `to`
+   */
+  public canTransition(to: RunPhase): boolean {
+    if (this.isFinished()) {
+      return false;
+    }
+    return isTerminalPhase(to) || TRANSITIONS[this.phase].includes(to);
+  }
+
+  /**
+   * Move to a new phase, closing the timing of the current one
+   */
+  public transition(to: RunPhase, now = new Date()): void {
+    if (!this.canTransition(to)) {
+      throw new PhaseTransitionError(this.phase, to);
+    }
+
+    const current = this.timings[this.timings.length - 1];
+    current.duration = now.getTime() - Date.parse(current.startedAt);
+    this.timings.push({ phase: to, startedAt: now.toISOString() });
+  }
+
+  /**
+   * Timings of every phase entered so far, in order
+   */
+  public getTimings(): PhaseTiming[] {
+    return this.timings.map((timing) => ({ ...timing }));
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Setup detection
+ * Infers install commands for a repository from its lockfiles
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+
+interface SetupRule {
+  files: string[]; // Any of these in the repository root triggers the rule
+  tool: string; // Executable that must be on PATH
+  command: string;
+}
+
+/**
+ * Rules in priority order. Only the first matching JavaScript package
+ * manager is used, since a repository can carry stale lockfiles.
+ */
+const JS_RULES: SetupRule[] = [
+  {
+    files: ['pnpm-lock.yaml'],
+    tool: 'pnpm',
+    command: 'pnpm install --frozen-lockfile',
+  },
+  { files: ['yarn.lock'], tool: 'yarn', command: 'yarn install' },
+  {
+    files: ['package-lock.json', 'npm-shrinkwrap.json'],
+    tool: 'npm',
+    command: 'npm ci',
+  },
+];
+
+const OTHER_RULES: SetupRule[] = [
+  {
+    files: ['poetry.lock'],
+    tool: 'poetry',
+    command: 'poetry install --no-interaction',
+  },
+  {
+    files: ['requirements.txt'],
+    tool: 'pip',
+    command: 'pip install -r requirements.txt',
+  },
+  { files: ['Cargo.lock'], tool: 'cargo', command: 'cargo fetch' },
+  { files: ['go.sum'], tool: 'go', command: 'go mod download' },
+];
+
+export interface DetectedSetup {
+  commands: string[];
+  missingTools: string[]; // Tools a lockfile called for that are not installed
+}
+
+/**
+ * Whether an executable is on PATH
+ */
+function isOnPath(tool: string): boolean {
+  const dirs = (process.env.PATH || '').split(path.delimiter);
+  return dirs.some((dir) => {
+    try {
+      fs.accessSync(path.join(dir, tool), fs.constants.X_OK);
+      return true;
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * Detect the install commands for the repository checked out in `dir`
+ */
+export function detectSetupCommands(dir: string): DetectedSetup {
+  const matches = (rule: SetupRule) =>
+    rule.files.some((file) => fs.existsSync(path.join(dir, file)));
+
+  const jsRule = JS_RULES.find(matches);
+  const rules = [...(jsRule ? [jsRule] : []), ...OTHER_RULES.filter(matches)];
+  // poetry manages its own environment from pyproject.toml
+  const applicable = rules.some((rule) => rule.tool === 'poetry')
+    ? rules.filter((rule) => rule.tool !== 'pip')
+    : rules;
+
+  const detected: DetectedSetup = { commands: [], missingTools: [] };
+  for (const rule of applicable) {
+    if (isOnPath(rule.tool)) {
+      detected.commands.push(rule.command);
+    } else {
+      detected.missingTools.push(rule.tool);
+    }
+  }
+  return detected;
+}
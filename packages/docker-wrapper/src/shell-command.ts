@@ -0,0 +1,103 @@
+/**
+ * Shell commands
+ * Runs setup and verification commands in the workspace
+ */
+
+import { EventEmitter } from 'node:events';
+import { ProcessRunner } from './process-runner';
+import type { ProcessOutput } from './process-runner';
+
+export interface ShellCommandRunnerOptions {
+  workingDirectory: string;
+  env?: Record<string, string>;
+}
+
+export interface ShellCommandResult {
+  command: string;
+  exitCode: number;
+  duration: number; // In ms
+  timedOut?: boolean;
+}
+
+/**
+ * Runs commands with `sh -c` through a ProcessRunner, one at a time,
+ * emitting their output line by line
+ */
+export class ShellCommandRunner extends EventEmitter {
+  private options: ShellCommandRunnerOptions;
+  private runner: ProcessRunner | null = null;
+  private timedOut = false;
+  private killed = false;
+
+  constructor(options: ShellCommandRunnerOptions) {
+    super();
+    this.options = options;
+  }
+
+  /**
+   * Run a command and resolve with its exit code. A command that times out
+   * (exit code 124) or is killed (143) resolves rather than throwing.
+   */
+  public async run(
+    command: string,
+    timeout: number
+  ): Promise<ShellCommandResult> {
+    const startTime = Date.now();
+    this.timedOut = false;
+    this.killed = false;
+
+    const runner = new ProcessRunner({
+      timeout,
+      workingDirectory: this.options.workingDirectory,
+      env: this.options.env,
+      // The wrapper handles signals itself and stops the command
+      handleSignals: false,
+    });
+    runner.on('output', (output: ProcessOutput) => {
+      this.emit('output', output);
+    });
+    runner.on('timeout', () => {
+      this.timedOut = true;
+    });
+    this.runner = runner;
+
+    let exitCode: number;
+    try {
+      exitCode = await runner.run('sh', ['-c', command]);
+    } catch (error) {
+      if (this.timedOut) {
+        exitCode = 124;
+      } else if (this.killed) {
+        exitCode = 143;
+      } else {
+        throw error;
+      }
+    } finally {
+      this.runner = null;
+    }
+
+    return {
+      command,
+      exitCode,
+      duration: Date.now() - startTime,
+      ...(this.timedOut ? { timedOut: true } : {}),
+    };
+  }
+
+  /**
+   * Whether a command is currently running
+   */
+  public isRunning(): boolean {
+    return this.runner !== null;
+  }
+
+  /**
+   * Kill the running command and everything it started
+   */
+  public kill(): void {
+    if (this.runner) {
+      this.killed = true;
+      this.runner.kill();
+    }
+  }
+}
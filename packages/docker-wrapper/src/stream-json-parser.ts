@@ -0,0 +1,199 @@
+/**
+ * Parser for Claude's `--output-format stream-json` output
+ * Turns each JSON line into typed events
+ */
+
+import type { ClaudeEventData, ClaudeUsage } from './types';
+import type { TurnUsage } from './usage-tracker';
+
+interface ContentBlock {
+  type?: string;
+  text?: string;
+  id?: string;
+  name?: string;
+  input?: Record<string, unknown>;
+  tool_use_id?: string;
+  content?: string | ContentBlock[];
+  is_error?: boolean;
+}
+
+interface StreamJsonRecord {
+  type?: string;
+  subtype?: string;
+  session_id?: string;
+  model?: string;
+  cwd?: string;
+  tools?: string[];
+  message?: {
+    id?: string;
+    model?: string;
+    content?: string | ContentBlock[];
+    usage?: Record<string, number | undefined>;
+  };
+  is_error?: boolean;
+  result?: string;
+  num_turns?: number;
+  duration_ms?: number;
+  total_cost_usd?: number;
+  cost_usd?: number;
+  usage?: Record<string, number | undefined>;
+}
+
+/**
+ * Parses stream-json lines into ClaudeEventData events, remembering tool
+ * names so results can be matched to the call that produced them. Per-turn
+ * token usage is not an event; it is passed to the usage callback instead.
+ */
+export class StreamJsonParser {
+  private toolNames = new Map<string, string>();
+  private onTurnUsage?: (turn: TurnUsage) => void;
+
+  constructor(onTurnUsage?: (turn: TurnUsage) => void) {
+    this.onTurnUsage = onTurnUsage;
+  }
+
+  /**
+   * Parse one line of output. Returns null if the line is not a stream-json
+   * record; recognised records without displayable content yield no events.
+   */
+  public parseLine(line: string): ClaudeEventData[] | null {
+    let record: StreamJsonRecord;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      return null;
+    }
+
+    if (!record || typeof record !== 'object' || !record.type) {
+      return null;
+    }
+
+    switch (record.type) {
+      case 'system':
+        return record.subtype === 'init'
+          ? [
+              {
+                kind: 'system_init',
+                sessionId: record.session_id,
+                model: record.model,
+                cwd: record.cwd,
+                tools: record.tools ?? [],
+              },
+            ]
+          : [];
+      case 'assistant':
+        return this.parseAssistant(record);
+      case 'user':
+        return this.parseToolResults(record);
+      case 'result':
+        return [
+          {
+            kind: 'result',
+            subtype: record.subtype ?? 'unknown',
+            isError: record.is_error ?? false,
+            result: record.result,
+            numTurns: record.num_turns,
+            durationMs: record.duration_ms,
+            costUsd: record.total_cost_usd ?? record.cost_usd,
+            usage: this.parseUsage(record.usage),
+          },
+        ];
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Extract text and tool calls from an assistant message
+   */
+  private parseAssistant(record: StreamJsonRecord): ClaudeEventData[] {
+    const events: ClaudeEventData[] = [];
+
+    const usage = this.parseUsage(record.message?.usage);
+    if (usage) {
+      this.onTurnUsage?.({
+        messageId: record.message?.id,
+        model: record.message?.model,
+        usage,
+      });
+    }
+
+    for (const block of this.contentBlocks(record)) {
+      if (block.type === 'text' && block.text?.trim()) {
+        events.push({ kind: 'assistant_text', text: block.text });
+      } else if (block.type === 'tool_use' && block.id && block.name) {
+        this.toolNames.set(block.id, block.name);
+        events.push({
+          kind: 'tool_use',
+          id: block.id,
+          name: block.name,
+          input: block.input ?? {},
+        });
+      }
+    }
+
+    return events;
+  }
+
+  /**
+   * Extract tool results from a user message
+   */
+  private parseToolResults(record: StreamJsonRecord): ClaudeEventData[] {
+    return this.contentBlocks(record)
+      .filter((block) => block.type === 'tool_result' && block.tool_use_id)
+      .map((block) => {
+        const toolUseId = block.tool_use_id as string;
+        return {
+          kind: 'tool_result',
+          toolUseId,
+          toolName: this.toolNames.get(toolUseId),
+          content: this.textContent(block.content),
+          isError: block.is_error ?? false,
+        };
+      });
+  }
+
+  /**
+   * Content blocks of a message, treating plain string content as text
+   */
+  private contentBlocks(record: StreamJsonRecord): ContentBlock[] {
+    const content = record.message?.content;
+    if (typeof content === 'string') {
+      return [{ type: 'text', text: content }];
+    }
+    return Array.isArray(content) ? content : [];
+  }
+
+  /**
+   * Flatten tool result content to text
+   */
+  private textContent(content: ContentBlock['content']): string {
+    if (typeof content === 'string') {
+      return content;
+    }
+    if (!Array.isArray(content)) {
+      return '';
+    }
+    return content
+      .map((block) => (block.type === 'text' ? (block.text ?? '') : ''))
+      .filter((text) => text !== '')
+      .join('\n');
+  }
+
+  /**
+   * Convert snake_case usage counters
+   */
+  private parseUsage(
+    usage: StreamJsonRecord['usage']
+  ): ClaudeUsage | undefined {
+    if (!usage) {
+      return undefined;
+    }
+    return {
+      inputTokens: usage.input_tokens ?? 0,
+      outputTokens: usage.output_tokens ?? 0,
+      cacheCreationInputTokens: usage.cache_creation_input_tokens,
+      cacheReadInputTokens: usage.cache_read_input_tokens,
+    };
+  }
+}
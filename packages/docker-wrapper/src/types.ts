@@ -9,13 +9,31 @@ export enum MessageType {
   STATUS = 'STATUS',
   HEARTBEAT = 'HEARTBEAT',
   COMPLETE = 'COMPLETE',
+  RUN_INFO = 'RUN_INFO',
+  CLAUDE_EVENT = 'CLAUDE_EVENT',
+  ARTIFACT = 'ARTIFACT',
+  CONTROL = 'CONTROL',
+  CONTROL_ACK = 'CONTROL_ACK',
+  REPLAY_COMPLETE = 'REPLAY_COMPLETE',
 }
 
 export interface Message {
   type: MessageType;
   containerID: string;
   timestamp: string;
-  data: LogData | StatusData | ErrorData | HeartbeatData | CompleteData;
+  seq?: number;
+  data:
+    | LogData
+    | StatusData
+    | ErrorData
+    | HeartbeatData
+    | CompleteData
+    | RunInfoData
+    | ClaudeEventData
+    | ArtifactData
+    | ControlData
+    | ControlAckData
+    | ReplayCompleteData;
 }
 
 export interface LogData {
@@ -24,8 +42,39 @@ export interface LogData {
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * How a run ended: `cancelled` when it was stopped on request, `timed_out`
+ * when it exceeded its time limit, `budget_exceeded` when it was stopped at
+ * its cost budget
+ */
+export type RunOutcome =
+  | 'completed'
+  | 'failed'
+  | 'timed_out'
+  | 'cancelled'
+  | 'budget_exceeded';
+
+/**
+ * Where a run is in its lifecycle; the outcomes are terminal phases
+ */
+export type RunPhase =
+  | 'provisioning'
+  | 'cloning'
+  | 'setup'
+  | 'executing'
+  | 'verifying'
+  | 'publishing'
+  | RunOutcome;
+
+export interface PhaseTiming {
+  phase: RunPhase;
+  startedAt: string;
+  duration?: number; // In ms; absent while the phase is current
+}
+
 export interface StatusData {
-  status: 'starting' | 'running' | 'completed' | 'failed';
+  status: 'starting' | 'running' | RunOutcome;
+  phase?: RunPhase;
   message?: string;
 }
 
@@ -44,4 +93,154 @@ export interface CompleteData {
   exitCode: number;
   message?: string;
   duration?: number;
+  outcome?: RunOutcome;
+  phases?: PhaseTiming[];
+  usage?: RunUsage;
+  verification?: VerificationResult;
+  attempts?: AttemptResult[]; // When failed verification is fed back to Claude
+  branch?: string; // Branch the changes were pushed to
+  commitSha?: string; // Head commit of the pushed branch
+}
+
+export interface RunInfoData {
+  repoUrl: string;
+  task: string;
+  model?: string;
+  baseRef?: string;
+  batchID?: string;
+  variables?: Record<string, string>; // Values a task template was expanded with
+  startedAt: string;
+}
+
+export interface ClaudeUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens?: number;
+  cacheReadInputTokens?: number;
+}
+
+/**
+ * Token usage and cost of a run. When Claude did not report a final result,
+ * e.g. because the run was stopped, the cost is estimated from token counts.
+ */
+export interface RunUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationInputTokens: number;
+  cacheReadInputTokens: number;
+  costUsd: number;
+  numTurns: number;
+  estimated?: boolean;
+}
+
+/**
+ * Result of the verification command (e.g. `pnpm test`) run in the
+ * workspace after Claude finished
+ */
+export interface VerificationResult {
+  command: string;
+  passed: boolean;
+  exitCode: number;
+  duration: number; // In ms
+  timedOut?: boolean;
+}
+
+/**
+ * One invocation of Claude in a run that feeds failed verification back
+ * to Claude for another attempt
+ */
+export interface AttemptResult {
+  attempt: number; // Starting at 1
+  outcome: RunOutcome;
+  exitCode: number;
+  duration: number; // In ms
+  usage: RunUsage;
+  verification?: VerificationResult;
+}
+
+/**
+ * Structured events parsed from Claude's stream-json output
+ */
+export type ClaudeEventData =
+  | {
+      kind: 'system_init';
+      sessionId?: string;
+      model?: string;
+      cwd?: string;
+      tools: string[];
+    }
+  | { kind: 'assistant_text'; text: string }
+  | {
+      kind: 'tool_use';
+      id: string;
+      name: string;
+      input: Record<string, unknown>;
+    }
+  | {
+      kind: 'tool_result';
+      toolUseId: string;
+      toolName?: string;
+      content: string;
+      isError: boolean;
+    }
+  | {
+      kind: 'result';
+      subtype: string;
+      isError: boolean;
+      result?: string;
+      numTurns?: number;
+      durationMs?: number;
+      costUsd?: number;
+      usage?: ClaudeUsage;
+    };
+
+export interface FileStat {
+  path: string;
+  added: number;
+  removed: number;
+  binary: boolean;
+}
+
+/**
+ * The run's changes relative to the cloned commit, as a unified diff and a
+ * `git format-patch` series. Content is omitted when it exceeds the
+ * wrapper's size limit; the file stats are always included.
+ */
+export interface ArtifactData {
+  kind: 'patch';
+  baseCommit: string;
+  headCommit: string;
+  files: FileStat[];
+  diff?: string;
+  patches?: string;
+  truncated: boolean;
+}
+
+export type ControlAction = 'CANCEL' | 'EXTEND_TIMEOUT' | 'PING';
+
+/**
+ * A request from a viewer, routed by the server to the container's producer
+ */
+export interface ControlData {
+  action: ControlAction;
+  requestId: string;
+  extendMs?: number; // EXTEND_TIMEOUT: milliseconds to add to the deadline
+  reason?: string;
+}
+
+/**
+ * The producer's answer to a control request, broadcast to viewers
+ */
+export interface ControlAckData {
+  action: ControlAction;
+  requestId: string;
+  accepted: boolean;
+  message?: string;
+  deadline?: string; // Run deadline after EXTEND_TIMEOUT
+}
+
+export interface ReplayCompleteData {
+  count: number;
+  lastSeq: number;
+  truncated: boolean;
 }
@@ -0,0 +1,186 @@
+/**
+ * Usage tracker
+ * Accumulates token usage across Claude's turns and estimates its cost
+ */
+
+import type { ClaudeUsage, RunUsage } from './types';
+
+interface ModelPricing {
+  pattern: RegExp;
+  input: number; // USD per million input tokens
+  output: number; // USD per million output tokens
+}
+
+/**
+ * List prices used to estimate cost while a run is in progress; the first
+ * pattern matching the model name wins. Claude's final result replaces the
+ * estimate with the actual cost.
+ */
+const MODEL_PRICING: ModelPricing[] = [
+  { pattern: /opus-4[-.]5/, input: 5, output: 25 },
+  { pattern: /opus/, input: 15, output: 75 },
+  { pattern: /haiku-4/, input: 1, output: 5 },
+  { pattern: /haiku/, input: 0.8, output: 4 },
+  { pattern: /sonnet/, input: 3, output: 15 },
+];
+
+const DEFAULT_PRICING = MODEL_PRICING[MODEL_PRICING.length - 1];
+
+const CACHE_WRITE_MULTIPLIER = 1.25;
+const CACHE_READ_MULTIPLIER = 0.1;
+
+/**
+ * Usage reported for one assistant message
+ */
+export interface TurnUsage {
+  messageId?: string;
+  model?: string;
+  usage: ClaudeUsage;
+}
+
+/**
+ * Usage with every counter at zero
+ */
+export function emptyUsage(): RunUsage {
+  return {
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: 0,
+    costUsd: 0,
+    numTurns: 0,
+  };
+}
+
+/**
+ * Total the usage of several runs; estimated if any of them was
+ */
+export function sumUsage(usages: RunUsage[]): RunUsage {
+  const total = emptyUsage();
+  for (const usage of usages) {
+    total.inputTokens += usage.inputTokens;
+    total.outputTokens += usage.outputTokens;
+    total.cacheCreationInputTokens += usage.cacheCreationInputTokens;
+    total.cacheReadInputTokens += usage.cacheReadInputTokens;
+    total.costUsd += usage.costUsd;
+    total.numTurns += usage.numTurns;
+    if (usage.estimated) {
+      total.estimated = true;
+    }
+  }
+  return total;
+}
+
+/**
+ * Estimate the cost of a turn from list prices
+ */
+export function estimateCostUsd(usage: ClaudeUsage, model?: string): number {
+  const pricing =
+    MODEL_PRICING.find((entry) => model && entry.pattern.test(model)) ??
+    DEFAULT_PRICING;
+
+  const inputTokens =
+    usage.inputTokens +
+    (usage.cacheCreationInputTokens ?? 0) * CACHE_WRITE_MULTIPLIER +
+    (usage.cacheReadInputTokens ?? 0) * CACHE_READ_MULTIPLIER;
+
+  return (
+    (inputTokens * pricing.input + usage.outputTokens * pricing.output) /
+    1_000_000
+  );
+}
+
+/**
+ * Tracks a run's usage: an estimate built from each turn, replaced by
+ * Claude's own totals once the final result arrives
+ */
+export class UsageTracker {
+  private defaultModel?: string;
+  private seenMessages = new Set<string>();
+  private replyPending = true; // The next assistant message starts a turn
+  private estimate = emptyUsage();
+  private reported?: RunUsage;
+
+  constructor(defaultModel?: string) {
+    this.defaultModel = defaultModel;
+  }
+
+  /**
+   * Forget all usage, ready for a new run
+   */
+  public reset(): void {
+    this.seenMessages.clear();
+    this.replyPending = true;
+    this.estimate = emptyUsage();
+    this.reported = undefined;
+  }
+
+  /**
+   * Record a user message, such as tool results sent back to Claude. The
+   * assistant message that replies to it starts a new turn.
+   */
+  public addUserMessage(): void {
+    this.replyPending = true;
+  }
+
+  /**
+   * Add one assistant message's usage. Claude repeats a message's usage on
+   * every content block it streams, so each message is counted once. A turn
+   * is a user message and Claude's reply, which may span several assistant
+   * messages, so only the first message of each reply counts as a turn.
+   */
+  public addTurn(turn: TurnUsage): void {
+    if (turn.messageId) {
+      if (this.seenMessages.has(turn.messageId)) {
+        return;
+      }
+      this.seenMessages.add(turn.messageId);
+    }
+
+    const { usage } = turn;
+    this.estimate.inputTokens += usage.inputTokens;
+    this.estimate.outputTokens += usage.outputTokens;
+    this.estimate.cacheCreationInputTokens +=
+      usage.cacheCreationInputTokens ?? 0;
+    this.estimate.cacheReadInputTokens += usage.cacheReadInputTokens ?? 0;
+    this.estimate.costUsd += estimateCostUsd(
+      usage,
+      turn.model ?? this.defaultModel
+    );
+    if (this.replyPending) {
+      this.estimate.numTurns++;
+      this.replyPending = false;
+    }
+  }
+
+  /**
+   * Record the totals from Claude's final result
+   */
+  public setReported(
+    costUsd: number | undefined,
+    usage: ClaudeUsage | undefined,
+    numTurns: number | undefined
+  ): void {
+    this.reported = {
+      inputTokens: usage?.inputTokens ?? this.estimate.inputTokens,
+      outputTokens: usage?.outputTokens ?? this.estimate.outputTokens,
+      cacheCreationInputTokens:
+        usage?.cacheCreationInputTokens ??
+        this.estimate.cacheCreationInputTokens,
+      cacheReadInputTokens:
+        usage?.cacheReadInputTokens ?? this.estimate.cacheReadInputTokens,
+      costUsd: costUsd ?? this.estimate.costUsd,
+      numTurns: numTurns ?? this.estimate.numTurns,
+      ...(costUsd === undefined ? { estimated: true } : {}),
+    };
+  }
+
+  /**
+   * The run's usage so far
+   */
+  public getUsage(): RunUsage {
+    return this.reported
+      ? { ...this.reported }
+      : { ...this.estimate, estimated: true };
+  }
+}
@@ -1,18 +1,33 @@
 import { EventEmitter } from 'node:events';
 import WebSocket from 'ws';
 import type {
+  ArtifactData,
+  ClaudeEventData,
   CompleteData,
+  ControlAckData,
+  ControlData,
   ErrorData,
   HeartbeatData,
   LogData,
   Message,
+  RunInfoData,
+  RunPhase,
   StatusData,
 } from './types';
 import { MessageType } from './types';
 
+/**
+ * Optional fields reported alongside the exit code on completion
+ */
+export type CompleteDetails = Omit<
+  CompleteData,
+  'exitCode' | 'message' | 'duration'
+>;
+
 export interface WebSocketClientOptions {
   serverUrl: string;
   containerID: string;
+  token?: string;
   reconnectInterval?: number;
   maxRetries?: number;
   heartbeatInterval?: number;
@@ -22,6 +37,7 @@ export class WebSocketClient extends EventEmitter {
   private ws: WebSocket | null = null;
   private serverUrl: string;
   private containerID: string;
+  private token?: string;
   private reconnectInterval: number;
   private maxRetries: number;
   private heartbeatInterval: number;
@@ -35,11 +51,23 @@ export class WebSocketClient extends EventEmitter {
     super();
     this.serverUrl = options.serverUrl;
     this.containerID = options.containerID;
+    this.token = options.token;
     this.reconnectInterval = options.reconnectInterval || 1000;
     this.maxRetries = options.maxRetries || 10;
     this.heartbeatInterval = options.heartbeatInterval || 30000;
   }
 
+  /**
+   * Build the connection URL, registering this client as the container's
+   * producer
+   */
+  private buildUrl(): string {
+    const url = new URL(this.serverUrl);
+    url.searchParams.set('role', 'producer');
+    url.searchParams.set('containerID', this.containerID);
+    return url.toString();
+  }
+
   /**
    * Connect to the WebSocket server with exponential backoff
    */
@@ -50,7 +78,11 @@ export class WebSocketClient extends EventEmitter {
 
     return new Promise((resolve, reject) => {
       try {
-        this.ws = new WebSocket(this.serverUrl);
+        this.ws = new WebSocket(this.buildUrl(), {
+          headers: this.token
+            ? { Authorization: `Bearer ${this.token}` }
+            : undefined,
+        });
 
         this.ws.on('open', () => {
           this.connected = true;
@@ -63,8 +95,11 @@ export class WebSocketClient extends EventEmitter {
 
         this.ws.on('message', (data: WebSocket.RawData) => {
           try {
-            const message = JSON.parse(data.toString());
+            const message = JSON.parse(data.toString()) as Message;
             this.emit('message', message);
+            if (message.type === MessageType.CONTROL) {
+              this.emit('control', message.data as ControlData);
+            }
           } catch (err) {
             this.emit(
               'error',
@@ -193,13 +228,18 @@ export class WebSocketClient extends EventEmitter {
   /**
    * Send a status update
    */
-  public sendStatus(status: StatusData['status'], message?: string): void {
+  public sendStatus(
+    status: StatusData['status'],
+    message?: string,
+    phase?: RunPhase
+  ): void {
     this.sendMessage({
       type: MessageType.STATUS,
       containerID: this.containerID,
       timestamp: new Date().toISOString(),
       data: {
         status,
+        phase,
         message,
       } as StatusData,
     });
@@ -225,6 +265,54 @@ export class WebSocketClient extends EventEmitter {
     });
   }
 
+  /**
+   * Send the run's metadata
+   */
+  public sendRunInfo(info: RunInfoData): void {
+    this.sendMessage({
+      type: MessageType.RUN_INFO,
+      containerID: this.containerID,
+      timestamp: new Date().toISOString(),
+      data: info,
+    });
+  }
+
+  /**
+   * Send a structured Claude event
+   */
+  public sendClaudeEvent(event: ClaudeEventData): void {
+    this.sendMessage({
+      type: MessageType.CLAUDE_EVENT,
+      containerID: this.containerID,
+      timestamp: new Date().toISOString(),
+      data: event,
+    });
+  }
+
+  /**
+   * Send a run artifact
+   */
+  public sendArtifact(artifact: ArtifactData): void {
+    this.sendMessage({
+      type: MessageType.ARTIFACT,
+      containerID: this.containerID,
+      timestamp: new Date().toISOString(),
+      data: artifact,
+    });
+  }
+
+  /**
+   * Answer a control request
+   */
+  public sendControlAck(ack: ControlAckData): void {
+    this.sendMessage({
+      type: MessageType.CONTROL_ACK,
+      containerID: this.containerID,
+      timestamp: new Date().toISOString(),
+      data: ack,
+    });
+  }
+
   /**
    * Send a heartbeat
    */
@@ -247,13 +335,15 @@ export class WebSocketClient extends EventEmitter {
   public sendComplete(
     exitCode: number,
     message?: string,
-    duration?: number
+    duration?: number,
+    details: CompleteDetails = {}
   ): void {
     this.sendMessage({
       type: MessageType.COMPLETE,
       containerID: this.containerID,
       timestamp: new Date().toISOString(),
       data: {
+        ...details,
         exitCode,
         message,
         duration,
@@ -0,0 +1,123 @@
+import {
+  existsSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ClaudeCodeRunner } from '../src/claude-code-runner';
+
+let workspace: string;
+
+beforeEach(() => {
+  workspace = mkdtempSync(path.join(tmpdir(), 'claude-runner-'));
+});
+
+afterEach(() => {
+  rmSync(workspace, { recursive: true, force: true });
+});
+
+/**
+ * A runner whose Claude binary is the given shell script
+ */
+function fakeRunner(script: string, timeout?: number): ClaudeCodeRunner {
+  const binary = path.join(workspace, 'claude');
+  // Read the prompt first, like Claude, so the pipe feeding it is opened
+  writeFileSync(binary, `#!/bin/sh\ncat > /dev/null\n${script}\n`, {
+    mode: 0o755,
+  });
+  const runner = new ClaudeCodeRunner({
+    workingDirectory: workspace,
+    task: 'Do the thing',
+    timeout,
+  });
+  runner.setBinaryPath(binary);
+  return runner;
+}
+
+/**
+ * Wait for the fake binary to write a pid file
+ */
+async function readPid(name: string): Promise<number> {
+  const file = path.join(workspace, name);
+  while (!existsSync(file) || !readFileSync(file, 'utf8').trim()) {
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  return Number(readFileSync(file, 'utf8'));
+}
+
+/**
+ * Whether a process is still running; exited processes nobody has reaped
+ * yet count as gone
+ */
+function isRunning(pid: number): boolean {
+  try {
+    const stat = readFileSync(`/proc/${pid}/stat`, 'utf8');
+    return stat.slice(stat.lastIndexOf(')') + 2)[0] !== 'Z';
+  } catch {
+    return false;
+  }
+}
+
+describe('ClaudeCodeRunner', () => {
+  it('stops the tools Claude started when it is cancelled', async () => {
+    const runner = fakeRunner('sleep 60 &\necho $! > tool.pid\nwait');
+
+    const running = runner.run();
+    const tool = await readPid('tool.pid');
+    await runner.kill();
+    const result = await running;
+
+    expect(result.outcome).toBe('cancelled');
+    expect(result.exitCode).toBe(143);
+    expect(isRunning(tool)).toBe(false);
+  });
+
+  it('stops the tools Claude started when it times out', async () => {
+    const runner = fakeRunner('sleep 60 &\necho $! > tool.pid\nwait', 500);
+
+    const result = await runner.run();
+    const tool = await readPid('tool.pid');
+
+    expect(result.outcome).toBe('timed_out');
+    expect(result.exitCode).toBe(124);
+    expect(isRunning(tool)).toBe(false);
+  });
+
+  it('kills processes that ignore SIGTERM after the grace period', async () => {
+    const runner = fakeRunner(
+      "trap '' TERM\nsleep 60 &\necho $! > tool.pid\nwait"
+    );
+
+    const running = runner.run();
+    const tool = await readPid('tool.pid');
+    const start = Date.now();
+    await runner.kill();
+    const result = await running;
+
+    expect(Date.now() - start).toBeGreaterThanOrEqual(4900);
+    expect(result.outcome).toBe('cancelled');
+    expect(isRunning(tool)).toBe(false);
+  }, 15000);
+
+  it('reports a signalled Claude as 128 plus the signal number', async () => {
+    const runner = fakeRunner('kill -KILL $$');
+
+    const result = await runner.run();
+
+    expect(result.outcome).toBe('failed');
+    expect(result.exitCode).toBe(137);
+  });
+
+  it('completes with the exit code Claude reported', async () => {
+    const runner = fakeRunner('exit 3');
+
+    const result = await runner.run();
+
+    expect(result.outcome).toBe('failed');
+    expect(result.exitCode).toBe(3);
+  });
+});
@@ -0,0 +1,216 @@
+import { execFileSync } from 'node:child_process';
+import {
+  mkdirSync,
+  mkdtempSync,
+  readdirSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { GitManager } from '../src/git-manager';
+
+const author = { name: 'Test', email: 'test@example.com' };
+
+let root: string;
+let origin: string;
+let workspace: string;
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync(
+    'git',
+    [
+      '-c',
+      `user.name=${author.name}`,
+      '-c',
+      `user.email=${author.email}`,
+      ...args,
+    ],
+    { cwd, encoding: 'utf8' }
+  ).trim();
+}
+
+beforeEach(() => {
+  root = mkdtempSync(path.join(tmpdir(), 'git-manager-'));
+  const seed = path.join(root, 'seed');
+  origin = path.join(root, 'origin.git');
+  workspace = path.join(root, 'workspace');
+
+  execFileSync('git', ['init', '-q', '-b', 'main', seed]);
+  writeFileSync(path.join(seed, 'README.md'), 'Hello\n');
+  git(seed, 'add', '-A');
+  git(seed, 'commit', '-q', '-m', 'Initial commit');
+  execFileSync('git', ['clone', '-q', '--bare', seed, origin]);
+});
+
+afterEach(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+async function cloned(): Promise<GitManager> {
+  const manager = new GitManager({ workspaceDir: workspace });
+  await manager.cloneRepository(origin);
+  return manager;
+}
+
+describe('GitManager branches', () => {
+  it('rejects invalid branch names', async () => {
+    const manager = await cloned();
+
+    await expect(manager.createBranch('claude/bad..name')).rejects.toThrow(
+      'Invalid branch name: claude/bad..name'
+    );
+  });
+
+  it('commits nothing when the workspace is clean', async () => {
+    const manager = await cloned();
+
+    expect(await manager.commitChanges('Nothing', author)).toBeNull();
+    expect(await manager.hasNewCommits()).toBe(false);
+  });
+
+  it('pushes committed changes to the working branch', async () => {
+    const manager = await cloned();
+    await manager.createBranch('claude/run-1');
+    writeFileSync(path.join(workspace, 'work.txt'), 'Done\n');
+    const commitSha = await manager.commitChanges('Do the work', author);
+
+    const result = await manager.pushBranch(origin);
+
+    expect(result).toEqual({ branch: 'claude/run-1', commitSha });
+    expect(git(origin, 'rev-parse', 'refs/heads/claude/run-1')).toBe(commitSha);
+    expect(git(origin, 'log', '-1', '--format=%an', 'claude/run-1')).toBe(
+      author.name
+    );
+  });
+
+  it('keeps excluded paths out of commits', async () => {
+    const manager = await cloned();
+    manager.excludeFromCommits(['/node_modules/']);
+    writeFileSync(path.join(workspace, 'work.txt'), 'Done\n');
+    mkdirSync(path.join(workspace, 'node_modules'));
+    writeFileSync(path.join(workspace, 'node_modules', 'dep.js'), '');
+
+    await manager.commitChanges('Do the work', author);
+
+    expect(git(workspace, 'show', '--name-only', '--format=', 'HEAD')).toBe(
+      'work.txt'
+    );
+  });
+
+  it('requires a working branch before pushing', async () => {
+    const manager = await cloned();
+
+    await expect(manager.pushBranch(origin)).rejects.toThrow(
+      'No working branch was created before the run'
+    );
+  });
+});
+
+describe('GitManager.createPatch', () => {
+  it('describes the commits made since the clone', async () => {
+    const manager = await cloned();
+    writeFileSync(path.join(workspace, 'README.md'), 'Hello\nWorld\n');
+    writeFileSync(path.join(workspace, 'logo.bin'), Buffer.from([0, 1, 2]));
+    await manager.commitChanges('Add a logo', author);
+    git(workspace, 'mv', 'README.md', 'GUIDE.md');
+    await manager.commitChanges('Rename the readme', author);
+
+    const patch = await manager.createPatch(1024 * 1024);
+
+    expect(patch.baseCommit).toBe(git(origin, 'rev-parse', 'main'));
+    expect(patch.headCommit).toBe(git(workspace, 'rev-parse', 'HEAD'));
+    expect(patch.files).toEqual([
+      { path: 'GUIDE.md', added: 2, removed: 0, binary: false },
+      { path: 'README.md', added: 0, removed: 1, binary: false },
+      { path: 'logo.bin', added: 0, removed: 0, binary: true },
+    ]);
+    expect(patch.diff).toContain('GIT binary patch');
+    expect(patch.patches).toContain('Subject: [PATCH 2/2] Rename the readme');
+    expect(patch.truncated).toBe(false);
+  });
+
+  it('drops the diff content when it is too large', async () => {
+    const manager = await cloned();
+    writeFileSync(path.join(workspace, 'work.txt'), 'Done\n');
+    await manager.commitChanges('Do the work', author);
+
+    const patch = await manager.createPatch(10);
+
+    expect(patch.truncated).toBe(true);
+    expect(patch.diff).toBeUndefined();
+    expect(patch.patches).toBeUndefined();
+    expect(patch.files).toEqual([
+      { path: 'work.txt', added: 1, removed: 0, binary: false },
+    ]);
+  });
+
+  it('requires a cloned repository', async () => {
+    const manager = new GitManager({ workspaceDir: workspace });
+
+    await expect(manager.createPatch(1024)).rejects.toThrow(
+      'Repository has not been cloned'
+    );
+  });
+});
+
+describe('GitManager.cloneRepository', () => {
+  let first: string;
+
+  beforeEach(() => {
+    const seed = path.join(root, 'seed');
+    first = git(seed, 'rev-parse', 'HEAD');
+    git(seed, 'tag', 'v1');
+    writeFileSync(path.join(seed, 'README.md'), 'Hello again\n');
+    git(seed, 'commit', '-q', '-am', 'Second commit');
+    git(seed, 'checkout', '-q', '-b', 'feature');
+    writeFileSync(path.join(seed, 'feature.txt'), 'Feature\n');
+    git(seed, 'add', '-A');
+    git(seed, 'commit', '-q', '-m', 'Feature commit');
+    git(seed, 'push', '-q', origin, 'main', 'feature', 'v1');
+  });
+
+  it('checks out the default branch', async () => {
+    const manager = await cloned();
+
+    expect(await manager.getCurrentCommit()).toBe(
+      git(origin, 'rev-parse', 'main')
+    );
+  });
+
+  it.each([
+    ['a branch', 'feature'],
+    ['a tag', 'v1'],
+    ['a commit', 'first'],
+  ])('checks out %s', async (_, ref) => {
+    const manager = new GitManager({ workspaceDir: workspace });
+    const resolved = ref === 'first' ? first : ref;
+
+    await manager.cloneRepository(origin, undefined, { ref: resolved });
+
+    expect(await manager.getCurrentCommit()).toBe(
+      git(origin, 'rev-parse', `${resolved}^{commit}`)
+    );
+  });
+
+  it('clones shallow history', async () => {
+    const manager = new GitManager({ workspaceDir: workspace });
+
+    await manager.cloneRepository(`file://${origin}`, undefined, {
+      ref: 'feature',
+      depth: 1,
+    });
+
+    expect(git(workspace, 'rev-list', '--count', 'HEAD')).toBe('1');
+  });
+
+  it('reports refs that cannot be fetched and cleans up', async () => {
+    const manager = new GitManager({ workspaceDir: workspace });
+
+    await expect(
+      manager.cloneRepository(origin, undefined, { ref: 'missing' })
+    ).rejects.toThrow('Cannot fetch ref missing');
+    expect(readdirSync(workspace)).toEqual([]);
+  });
+});
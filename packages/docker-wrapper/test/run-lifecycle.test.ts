@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import {
+  PhaseTransitionError,
+  RunLifecycle,
+  statusForPhase,
+} from '../src/run-lifecycle';
+
+const START = new Date('2026-01-01T00:00:00Z');
+
+function at(seconds: number): Date {
+  return new Date(START.getTime() + seconds * 1000);
+}
+
+describe('RunLifecycle', () => {
+  it('starts provisioning', () => {
+    const lifecycle = new RunLifecycle(START);
+
+    expect(lifecycle.phase).toBe('provisioning');
+    expect(lifecycle.isFinished()).toBe(false);
+  });
+
+  it('follows a full run and times each phase', () => {
+    const lifecycle = new RunLifecycle(START);
+    lifecycle.transition('cloning', at(1));
+    lifecycle.transition('setup', at(3));
+    lifecycle.transition('executing', at(10));
+    lifecycle.transition('verifying', at(60));
+    lifecycle.transition('executing', at(70));
+    lifecycle.transition('verifying', at(90));
+    lifecycle.transition('publishing', at(100));
+    lifecycle.transition('completed', at(105));
+
+    expect(lifecycle.isFinished()).toBe(true);
+    expect(
+      lifecycle.getTimings().map(({ phase, duration }) => [phase, duration])
+    ).toEqual([
+      ['provisioning', 1000],
+      ['cloning', 2000],
+      ['setup', 7000],
+      ['executing', 50000],
+      ['verifying', 10000],
+      ['executing', 20000],
+      ['verifying', 10000],
+      ['publishing', 5000],
+      ['completed', undefined],
+    ]);
+  });
+
+  it('allows optional phases to be skipped', () => {
+    const lifecycle = new RunLifecycle(START);
+    lifecycle.transition('cloning');
+    lifecycle.transition('executing');
+    lifecycle.transition('publishing');
+
+    expect(lifecycle.phase).toBe('publishing');
+  });
+
+  it('lets any active phase end in an outcome', () => {
+    for (const outcome of [
+      'completed',
+      'failed',
+      'cancelled',
+      'timed_out',
+      'budget_exceeded',
+    ] as const) {
+      const lifecycle = new RunLifecycle(START);
+      lifecycle.transition('cloning');
+      lifecycle.transition(outcome);
+
+      expect(lifecycle.phase).toBe(outcome);
+    }
+  });
+
+  it('rejects skipping ahead', () => {
+    const lifecycle = new RunLifecycle(START);
+
+    expect(() => lifecycle.transition('executing')).toThrow(
+      PhaseTransitionError
+    );
+    expect(lifecycle.phase).toBe('provisioning');
+  });
+
+  it('rejects going back', () => {
+    const lifecycle = new RunLifecycle(START);
+    lifecycle.transition('cloning');
+    lifecycle.transition('executing');
+
+    expect(lifecycle.canTransition('setup')).toBe(false);
+    expect(() => lifecycle.transition('cloning')).toThrow(
+      'Invalid run phase transition: executing -> cloning'
+    );
+  });
+
+  it('rejects any transition once finished', () => {
+    const lifecycle = new RunLifecycle(START);
+    lifecycle.transition('failed');
+
+    expect(lifecycle.canTransition('completed')).toBe(false);
+    expect(() => lifecycle.transition('cancelled')).toThrow(
+      PhaseTransitionError
+    );
+  });
+});
+
+describe('statusForPhase', () => {
+  it('maps phases to the coarse status', () => {
+    expect(statusForPhase('provisioning')).toBe('starting');
+    expect(statusForPhase('executing')).toBe('running');
+    expect(statusForPhase('timed_out')).toBe('timed_out');
+  });
+});
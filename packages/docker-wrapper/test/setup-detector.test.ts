@@ -0,0 +1,93 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { detectSetupCommands } from '../src/setup-detector';
+
+let root: string;
+let repo: string;
+let bin: string;
+const originalPath = process.env.PATH;
+
+beforeEach(() => {
+  root = mkdtempSync(path.join(tmpdir(), 'setup-detector-'));
+  repo = path.join(root, 'repo');
+  bin = path.join(root, 'bin');
+  mkdirSync(repo);
+  mkdirSync(bin);
+  process.env.PATH = bin;
+});
+
+afterEach(() => {
+  process.env.PATH = originalPath;
+  rmSync(root, { recursive: true, force: true });
+});
+
+function install(...tools: string[]): void {
+  for (const tool of tools) {
+    writeFileSync(path.join(bin, tool), '#!/bin/sh\n', { mode: 0o755 });
+  }
+}
+
+function checkout(...files: string[]): void {
+  for (const file of files) {
+    writeFileSync(path.join(repo, file), '');
+  }
+}
+
+describe('detectSetupCommands', () => {
+  it('finds nothing in a repository without lockfiles', () => {
+    checkout('README.md');
+
+    expect(detectSetupCommands(repo)).toEqual({
+      commands: [],
+      missingTools: [],
+    });
+  });
+
+  it('uses only the first JavaScript package manager', () => {
+    install('pnpm', 'yarn', 'npm');
+    checkout('package-lock.json', 'yarn.lock', 'pnpm-lock.yaml');
+
+    expect(detectSetupCommands(repo).commands).toEqual([
+      'pnpm install --frozen-lockfile',
+    ]);
+  });
+
+  it('combines package managers for different languages', () => {
+    install('npm', 'pip', 'go');
+    checkout('npm-shrinkwrap.json', 'requirements.txt', 'go.sum');
+
+    expect(detectSetupCommands(repo).commands).toEqual([
+      'npm ci',
+      'pip install -r requirements.txt',
+      'go mod download',
+    ]);
+  });
+
+  it('prefers poetry over requirements.txt', () => {
+    install('poetry', 'pip');
+    checkout('poetry.lock', 'requirements.txt');
+
+    expect(detectSetupCommands(repo).commands).toEqual([
+      'poetry install --no-interaction',
+    ]);
+  });
+
+  it('reports tools that are not installed', () => {
+    install('yarn');
+    checkout('yarn.lock', 'Cargo.lock');
+
+    expect(detectSetupCommands(repo)).toEqual({
+      commands: ['yarn install'],
+      missingTools: ['cargo'],
+    });
+  });
+
+  it('ignores tools that are not executable', () => {
+    writeFileSync(path.join(bin, 'cargo'), '');
+    checkout('Cargo.lock');
+
+    expect(detectSetupCommands(repo).missingTools).toEqual(['cargo']);
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest';
+import { StreamJsonParser } from '../src/stream-json-parser';
+import type { TurnUsage } from '../src/usage-tracker';
+
+function line(record: Record<string, unknown>): string {
+  return JSON.stringify(record);
+}
+
+describe('StreamJsonParser', () => {
+  it('ignores lines that are not stream-json records', () => {
+    const parser = new StreamJsonParser();
+
+    expect(parser.parseLine('plain output')).toBeNull();
+    expect(parser.parseLine('{"no":"type"}')).toBeNull();
+    expect(parser.parseLine(line({ type: 'unknown' }))).toBeNull();
+  });
+
+  it('parses the init record', () => {
+    const parser = new StreamJsonParser();
+
+    expect(
+      parser.parseLine(
+        line({
+          type: 'system',
+          subtype: 'init',
+          session_id: 'session-1',
+          model: 'claude-4-sonnet',
+          cwd: '/workspace',
+          tools: ['Read', 'Edit'],
+        })
+      )
+    ).toEqual([
+      {
+        kind: 'system_init',
+        sessionId: 'session-1',
+        model: 'claude-4-sonnet',
+        cwd: '/workspace',
+        tools: ['Read', 'Edit'],
+      },
+    ]);
+  });
+
+  it('parses text and tool calls, and reports turn usage', () => {
+    const turns: TurnUsage[] = [];
+    const parser = new StreamJsonParser((turn) => turns.push(turn));
+
+    const events = parser.parseLine(
+      line({
+        type: 'assistant',
+        message: {
+          id: 'msg-1',
+          model: 'claude-4-sonnet',
+          content: [
+            { type: 'text', text: 'Reading the file' },
+            { type: 'text', text: '  ' },
+            {
+              type: 'tool_use',
+              id: 'tool-1',
+              name: 'Read',
+              input: { file_path: 'a.ts' },
+            },
+          ],
+          usage: { input_tokens: 100, output_tokens: 20 },
+        },
+      })
+    );
+
+    expect(events).toEqual([
+      { kind: 'assistant_text', text: 'Reading the file' },
+      {
+        kind: 'tool_use',
+        id: 'tool-1',
+        name: 'Read',
+        input: { file_path: 'a.ts' },
+      },
+    ]);
+    expect(turns).toEqual([
+      {
+        messageId: 'msg-1',
+        model: 'claude-4-sonnet',
+        usage: {
+          inputTokens: 100,
+          outputTokens: 20,
+          cacheCreationInputTokens: undefined,
+          cacheReadInputTokens: undefined,
+        },
+      },
+    ]);
+  });
+
+  it('matches tool results to the call that produced them', () => {
+    const parser = new StreamJsonParser();
+    parser.parseLine(
+      line({
+        type: 'assistant',
+        message: {
+          content: [{ type: 'tool_use', id: 'tool-1', name: 'Bash' }],
+        },
+      })
+    );
+
+    expect(
+      parser.parseLine(
+        line({
+          type: 'user',
+          message: {
+            content: [
+              {
+                type: 'tool_result',
+                tool_use_id: 'tool-1',
+                content: [
+                  { type: 'text', text: 'line 1' },
+                  { type: 'image' },
+                  { type: 'text', text: 'line 2' },
+                ],
+                is_error: true,
+              },
+            ],
+          },
+        })
+      )
+    ).toEqual([
+      {
+        kind: 'tool_result',
+        toolUseId: 'tool-1',
+        toolName: 'Bash',
+        content: 'line 1\nline 2',
+        isError: true,
+      },
+    ]);
+  });
+
+  it('parses the result record', () => {
+    const parser = new StreamJsonParser();
+
+    expect(
+      parser.parseLine(
+        line({
+          type: 'result',
+          subtype: 'success',
+          result: 'Done',
+          num_turns: 3,
+          duration_ms: 1200,
+          total_cost_usd: 0.25,
+          usage: { input_tokens: 10, output_tokens: 5 },
+        })
+      )
+    ).toEqual([
+      {
+        kind: 'result',
+        subtype: 'success',
+        isError: false,
+        result: 'Done',
+        numTurns: 3,
+        durationMs: 1200,
+        costUsd: 0.25,
+        usage: {
+          inputTokens: 10,
+          outputTokens: 5,
+          cacheCreationInputTokens: undefined,
+          cacheReadInputTokens: undefined,
+        },
+      },
+    ]);
+  });
+});
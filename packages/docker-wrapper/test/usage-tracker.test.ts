@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { UsageTracker, estimateCostUsd } from '../src/usage-tracker';
+
+const usage = { inputTokens: 1000, outputTokens: 100 };
+
+describe('UsageTracker', () => {
+  it('counts each message once', () => {
+    const tracker = new UsageTracker('claude-4-sonnet');
+    tracker.addTurn({ messageId: 'msg-1', usage });
+    tracker.addTurn({ messageId: 'msg-1', usage });
+
+    expect(tracker.getUsage()).toMatchObject({
+      inputTokens: 1000,
+      outputTokens: 100,
+      numTurns: 1,
+      estimated: true,
+    });
+  });
+
+  it('counts a turn per user message and reply', () => {
+    const tracker = new UsageTracker();
+    tracker.addTurn({ messageId: 'msg-1', usage });
+    tracker.addTurn({ messageId: 'msg-2', usage });
+    tracker.addUserMessage();
+    tracker.addUserMessage();
+    tracker.addTurn({ messageId: 'msg-3', usage });
+    tracker.addUserMessage();
+    tracker.addTurn({ messageId: 'msg-4', usage });
+
+    expect(tracker.getUsage().numTurns).toBe(3);
+    expect(tracker.getUsage().inputTokens).toBe(4000);
+  });
+
+  it('prefers the totals from the final result', () => {
+    const tracker = new UsageTracker();
+    tracker.addTurn({ messageId: 'msg-1', usage });
+    tracker.setReported(0.5, undefined, 6);
+
+    expect(tracker.getUsage()).toEqual({
+      inputTokens: 1000,
+      outputTokens: 100,
+      cacheCreationInputTokens: 0,
+      cacheReadInputTokens: 0,
+      costUsd: 0.5,
+      numTurns: 6,
+    });
+  });
+
+  it('starts over on reset', () => {
+    const tracker = new UsageTracker();
+    tracker.addTurn({ messageId: 'msg-1', usage });
+    tracker.reset();
+    tracker.addTurn({ messageId: 'msg-1', usage });
+
+    expect(tracker.getUsage().numTurns).toBe(1);
+  });
+});
+
+describe('estimateCostUsd', () => {
+  it('uses the pricing of the matching model', () => {
+    expect(estimateCostUsd(usage, 'claude-4-sonnet')).toBeCloseTo(0.0045);
+    expect(estimateCostUsd(usage, 'claude-4-opus')).toBeCloseTo(0.0225);
+  });
+
+  it('discounts cache reads and charges more for cache writes', () => {
+    expect(
+      estimateCostUsd(
+        {
+          inputTokens: 0,
+          outputTokens: 0,
+          cacheCreationInputTokens: 1_000_000,
+          cacheReadInputTokens: 1_000_000,
+        },
+        'claude-4-sonnet'
+      )
+    ).toBeCloseTo(3 * 1.25 + 3 * 0.1);
+  });
+});
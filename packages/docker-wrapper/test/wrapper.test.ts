@@ -0,0 +1,258 @@
+import { execFileSync, spawn } from 'node:child_process';
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { WebSocketServer } from 'ws';
+import type { CompleteData, ErrorData, Message } from '../src/types';
+import { MessageType } from '../src/types';
+
+const packageDir = fileURLToPath(new URL('..', import.meta.url));
+
+/**
+ * Stands in for Claude: each run records its arguments and prompt, appends
+ * to work.txt, and runs from the FIX_ON'th onwards also create fixed.txt,
+ * which the verify command checks
+ */
+const FAKE_CLAUDE = `#!/bin/sh
+runs=$(( $(cat "$FAKE_CLAUDE_RUNS" 2>/dev/null || echo 0) + 1 ))
+echo $runs > "$FAKE_CLAUDE_RUNS"
+{ echo "$@"; cat; } > "$FAKE_CLAUDE_RUNS.$runs"
+echo "run $runs" >> work.txt
+if [ "$runs" -ge "$FIX_ON" ]; then touch fixed.txt; fi
+echo '{"type":"result","subtype":"success","is_error":false,"result":"ok","num_turns":1,"total_cost_usd":0.1,"usage":{"input_tokens":10,"output_tokens":5}}'
+`;
+
+let root: string;
+let origin: string;
+let bin: string;
+let server: WebSocketServer;
+let serverUrl: string;
+const messages = new Map<string, Message[]>();
+let runs = 0;
+
+beforeAll(async () => {
+  root = mkdtempSync(path.join(tmpdir(), 'wrapper-'));
+  origin = path.join(root, 'origin.git');
+  bin = path.join(root, 'bin');
+  const seed = path.join(root, 'seed');
+
+  mkdirSync(bin);
+  writeFileSync(path.join(bin, 'claude'), FAKE_CLAUDE, { mode: 0o755 });
+  execFileSync('git', ['init', '-q', '-b', 'main', seed]);
+  writeFileSync(path.join(seed, 'README.md'), 'Hello\n');
+  execFileSync('git', ['add', '-A'], { cwd: seed });
+  execFileSync('git', ['commit', '-q', '-m', 'Initial commit'], {
+    cwd: seed,
+    env: {
+      ...process.env,
+      GIT_AUTHOR_NAME: 'Test',
+      GIT_AUTHOR_EMAIL: 'test@example.com',
+      GIT_COMMITTER_NAME: 'Test',
+      GIT_COMMITTER_EMAIL: 'test@example.com',
+    },
+  });
+  execFileSync('git', ['clone', '-q', '--bare', seed, origin]);
+
+  server = new WebSocketServer({ port: 0 });
+  server.on('connection', (socket) => {
+    socket.on('message', (data) => {
+      const message = JSON.parse(data.toString()) as Message;
+      const received = messages.get(message.containerID) ?? [];
+      received.push(message);
+      messages.set(message.containerID, received);
+    });
+  });
+  await new Promise((resolve) => server.once('listening', resolve));
+  serverUrl = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+  rmSync(root, { recursive: true, force: true });
+});
+
+interface WrapperRun {
+  exitCode: number | null;
+  claudeRuns: string[]; // Arguments and prompt of each Claude run
+  complete: CompleteData;
+  errors: ErrorData[];
+  branches: string;
+}
+
+/**
+ * Run the wrapper to completion against the local origin and the test
+ * server
+ */
+async function runWrapper(env: Record<string, string>): Promise<WrapperRun> {
+  runs++;
+  const containerID = `run-${runs}`;
+  const child = spawn(
+    path.join(packageDir, 'node_modules/.bin/tsx'),
+    ['src/index.ts'],
+    {
+      cwd: packageDir,
+      env: {
+        ...process.env,
+        PATH: `${bin}${path.delimiter}${process.env.PATH}`,
+        REPO_URL: origin,
+        TASK: 'Do the work',
+        WS_SERVER: serverUrl,
+        CONTAINER_ID: containerID,
+        WORKSPACE_DIR: path.join(root, containerID),
+        FAKE_CLAUDE_RUNS: path.join(root, `${containerID}.runs`),
+        FIX_ON: '1',
+        ...env,
+      },
+      stdio: 'ignore',
+    }
+  );
+  const exitCode = await new Promise<number | null>((resolve) =>
+    child.once('exit', resolve)
+  );
+
+  const runsFile = path.join(root, `${containerID}.runs`);
+  const claudeRuns = existsSync(runsFile)
+    ? Array.from({ length: Number(readFileSync(runsFile, 'utf8')) }, (_, n) =>
+        readFileSync(`${runsFile}.${n + 1}`, 'utf8')
+      )
+    : [];
+  const received = messages.get(containerID) ?? [];
+  const complete = received.find(
+    (message) => message.type === MessageType.COMPLETE
+  );
+  return {
+    exitCode,
+    claudeRuns,
+    complete: complete?.data as CompleteData,
+    errors: received
+      .filter((message) => message.type === MessageType.ERROR)
+      .map((message) => message.data as ErrorData),
+    branches: execFileSync(
+      'git',
+      ['branch', '--list', `claude/${containerID}`],
+      {
+        cwd: origin,
+        encoding: 'utf8',
+      }
+    ).trim(),
+  };
+}
+
+describe('verification', () => {
+  it('publishes changes that pass verification', async () => {
+    const run = await runWrapper({ VERIFY_COMMAND: 'test -f fixed.txt' });
+
+    expect(run.exitCode).toBe(0);
+    expect(run.complete).toMatchObject({
+      exitCode: 0,
+      outcome: 'completed',
+      verification: { command: 'test -f fixed.txt', passed: true },
+    });
+    expect(run.branches).toContain('claude/run-');
+  }, 30000);
+
+  it('publishes changes that fail verification by default', async () => {
+    const run = await runWrapper({
+      VERIFY_COMMAND: 'test -f fixed.txt',
+      FIX_ON: '99',
+    });
+
+    expect(run.exitCode).toBe(0);
+    expect(run.complete).toMatchObject({
+      outcome: 'completed',
+      verification: { passed: false, exitCode: 1 },
+    });
+    expect(run.errors.map((error) => error.code)).toContain(
+      'VERIFICATION_FAILED'
+    );
+    expect(run.branches).not.toBe('');
+  }, 30000);
+
+  it('fails the run without publishing when asked to', async () => {
+    const run = await runWrapper({
+      VERIFY_COMMAND: 'test -f fixed.txt',
+      ON_VERIFY_FAILURE: 'fail',
+      FIX_ON: '99',
+    });
+
+    expect(run.exitCode).toBe(1);
+    expect(run.complete).toMatchObject({ exitCode: 1, outcome: 'failed' });
+    expect(run.branches).toBe('');
+  }, 30000);
+
+  it('completes without publishing when asked to', async () => {
+    const run = await runWrapper({
+      VERIFY_COMMAND: 'test -f fixed.txt',
+      ON_VERIFY_FAILURE: 'skip-publish',
+      FIX_ON: '99',
+    });
+
+    expect(run.exitCode).toBe(0);
+    expect(run.complete.outcome).toBe('completed');
+    expect(run.complete.message).toContain('changes not published');
+    expect(run.branches).toBe('');
+  }, 30000);
+});
+
+describe('fix attempts', () => {
+  it('sends failed verification back to Claude until it passes', async () => {
+    const run = await runWrapper({
+      VERIFY_COMMAND: 'test -f fixed.txt',
+      MAX_FIX_ATTEMPTS: '3',
+      FIX_ON: '2',
+    });
+
+    expect(run.exitCode).toBe(0);
+    expect(run.claudeRuns).toHaveLength(2);
+    expect(run.claudeRuns[0]).not.toContain('--continue');
+    expect(run.claudeRuns[1]).toContain('--continue');
+    expect(run.claudeRuns[1]).toContain(
+      'Your changes were checked by running `test -f fixed.txt` and it failed with exit code 1.'
+    );
+    expect(run.complete.verification?.passed).toBe(true);
+    expect(
+      run.complete.attempts?.map((attempt) => attempt.verification?.passed)
+    ).toEqual([false, true]);
+    expect(run.complete.usage?.costUsd).toBeCloseTo(0.2);
+  }, 30000);
+
+  it('stops when the attempts run out', async () => {
+    const run = await runWrapper({
+      VERIFY_COMMAND: 'test -f fixed.txt',
+      MAX_FIX_ATTEMPTS: '2',
+      FIX_ON: '99',
+    });
+
+    expect(run.claudeRuns).toHaveLength(3);
+    expect(run.complete.attempts).toHaveLength(3);
+    expect(run.complete.verification?.passed).toBe(false);
+    expect(run.complete.outcome).toBe('completed');
+  }, 30000);
+});
+
+describe('setup', () => {
+  it('fails the run before Claude starts when a command fails', async () => {
+    const run = await runWrapper({ SETUP_COMMANDS: 'true\nexit 4' });
+
+    expect(run.exitCode).toBe(1);
+    expect(run.claudeRuns).toEqual([]);
+    expect(run.complete).toMatchObject({ exitCode: 1, outcome: 'failed' });
+    expect(run.errors).toContainEqual(
+      expect.objectContaining({
+        code: 'SETUP_FAILED',
+        details: expect.objectContaining({ command: 'exit 4', exitCode: 4 }),
+      })
+    );
+    expect(run.branches).toBe('');
+  }, 30000);
+});
@@ -0,0 +1,145 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import type { IncomingMessage } from 'node:http';
+import { parse } from 'node:url';
+import type { ConnectionRole, TokenClaims } from './types.js';
+
+/**
+ * Compare two secrets in constant time
+ */
+function safeEqual(a: string, b: string): boolean {
+  const bufferA = Buffer.from(a);
+  const bufferB = Buffer.from(b);
+  return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB);
+}
+
+/**
+ * TokenAuthority mints and verifies HMAC-signed tokens scoped to a single
+ * container ID and role. A token is `<base64url claims>.<base64url signature>`.
+ */
+export class TokenAuthority {
+  private secret: Buffer;
+  private maxTtl: number;
+
+  constructor(secret?: string, maxTtl = 24 * 60 * 60) {
+    this.secret = secret ? Buffer.from(secret) : randomBytes(32);
+    this.maxTtl = maxTtl;
+  }
+
+  /**
+   * Sign a payload with the server secret
+   */
+  private sign(payload: string): string {
+    return createHmac('sha256', this.secret)
+      .update(payload)
+      .digest('base64url');
+  }
+
+  /**
+   * Mint a token for a container and role, valid for `ttl` seconds (clamped
+   * to the configured maximum)
+   */
+  mint(
+    containerID: string,
+    role: ConnectionRole,
+    ttl = this.maxTtl
+  ): { token: string; claims: TokenClaims } {
+    const now = Math.floor(Date.now() / 1000);
+    const claims: TokenClaims = {
+      containerID,
+      role,
+      iat: now,
+      exp: now + Math.min(Math.max(ttl, 1), this.maxTtl),
+    };
+
+    const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+    return { token: `${payload}.${this.sign(payload)}`, claims };
+  }
+
+  /**
+   * Verify a token's signature and expiry, returning its claims
+   */
+  verify(token: string): TokenClaims | null {
+    const [payload, signature, ...rest] = token.split('.');
+    if (!payload || !signature || rest.length > 0) {
+      return null;
+    }
+
+    if (!safeEqual(signature, this.sign(payload))) {
+      return null;
+    }
+
+    try {
+      const claims = JSON.parse(
+        Buffer.from(payload, 'base64url').toString()
+      ) as TokenClaims;
+
+      if (
+        typeof claims.containerID !== 'string' ||
+        (claims.role !== 'producer' && claims.role !== 'viewer') ||
+        typeof claims.exp !== 'number' ||
+        claims.exp <= Math.floor(Date.now() / 1000)
+      ) {
+        return null;
+      }
+
+      return claims;
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Result of authenticating a request: either the admin token, which is not
+ * restricted to a container, or a scoped token's claims
+ */
+export type AuthContext =
+  | { admin: true }
+  | { admin: false; claims: TokenClaims };
+
+/**
+ * Extract a token from the Authorization/X-Auth-Token headers or the `token`
+ * query parameter, in that order of preference
+ */
+export function extractToken(req: IncomingMessage): string | undefined {
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.substring('Bearer '.length).trim();
+  }
+
+  const header = req.headers['x-auth-token'];
+  if (typeof header === 'string' && header) {
+    return header;
+  }
+
+  const { token } = parse(req.url || '', true).query;
+  return typeof token === 'string' && token ? token : undefined;
+}
+
+/**
+ * Authenticate a request against the admin token or a scoped token
+ */
+export function authenticate(
+  req: IncomingMessage,
+  adminToken: string,
+  authority: TokenAuthority
+): AuthContext | null {
+  const token = extractToken(req);
+  if (!token) {
+    return null;
+  }
+
+  if (safeEqual(token, adminToken)) {
+    return { admin: true };
+  }
+
+  const claims = authority.verify(token);
+  return claims ? { admin: false, claims } : null;
+}
+
+/**
+ * Remove credentials from a URL so it can be logged
+ */
+export function redactUrl(url: string): string {
+  return url.replace(/([?&]token=)[^&]*/g, '$1[REDACTED]');
+}
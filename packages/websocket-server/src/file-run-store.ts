@@ -0,0 +1,231 @@
+import { createReadStream, createWriteStream } from 'node:fs';
+import type { WriteStream } from 'node:fs';
+import {
+  mkdir,
+  readFile,
+  readdir,
+  rm,
+  stat,
+  writeFile,
+} from 'node:fs/promises';
+import path from 'node:path';
+import {
+  applyMessage,
+  createRunRecord,
+  filterMessages,
+  selectExpiredRuns,
+} from './run-store.js';
+import type { RunRetention, RunStore } from './run-store.js';
+import type { Message, ReplayOptions, RunRecord } from './types.js';
+import { MessageType } from './types.js';
+
+/**
+ * Number of complete lines in a file, read in chunks
+ */
+async function countLines(file: string): Promise<number> {
+  let lines = 0;
+  for await (const chunk of createReadStream(file)) {
+    for (const byte of chunk as Buffer) {
+      if (byte === 0x0a) {
+        lines++;
+      }
+    }
+  }
+  return lines;
+}
+
+export interface FileRunStoreOptions {
+  directory: string;
+  retention: RunRetention;
+}
+
+/**
+ * FileRunStore keeps one NDJSON message log (`<id>.ndjson`) and one metadata
+ * file (`<id>.json`) per container in a local directory.
+ */
+export class FileRunStore implements RunStore {
+  private directory: string;
+  private retention: RunRetention;
+  private runs: Map<string, RunRecord>;
+  private streams: Map<string, WriteStream>;
+  private pendingSaves: Map<string, Promise<void>>;
+  private pendingWrites: Map<string, Promise<void>>; // Each log's last write
+
+  constructor(options: FileRunStoreOptions) {
+    this.directory = options.directory;
+    this.retention = options.retention;
+    this.runs = new Map();
+    this.streams = new Map();
+    this.pendingSaves = new Map();
+    this.pendingWrites = new Map();
+  }
+
+  /**
+   * Base path for a container's files; IDs are encoded so they cannot
+   * escape the store directory
+   */
+  private basePath(containerID: string): string {
+    return path.join(this.directory, encodeURIComponent(containerID));
+  }
+
+  async init(): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+
+    for (const entry of await readdir(this.directory)) {
+      if (!entry.endsWith('.json')) {
+        continue;
+      }
+
+      try {
+        const record = JSON.parse(
+          await readFile(path.join(this.directory, entry), 'utf8')
+        ) as RunRecord;
+        const logPath = `${this.basePath(record.containerID)}.ndjson`;
+        const log = await stat(logPath);
+        // Metadata is only saved when it changes, so the counters and the
+        // time of the last message come from the log
+        record.bytes = log.size;
+        record.messageCount = await countLines(logPath);
+        record.lastMessageAt = log.mtime.toISOString();
+        this.runs.set(record.containerID, record);
+      } catch (error) {
+        console.error(`Skipping unreadable run metadata ${entry}:`, error);
+      }
+    }
+  }
+
+  async append(message: Message): Promise<void> {
+    const { containerID } = message;
+    const line = `${JSON.stringify(message)}\n`;
+
+    let record = this.runs.get(containerID);
+    if (!record) {
+      record = createRunRecord(containerID, message.timestamp);
+      this.runs.set(containerID, record);
+    }
+
+    let stream = this.streams.get(containerID);
+    if (!stream) {
+      stream = createWriteStream(`${this.basePath(containerID)}.ndjson`, {
+        flags: 'a',
+      });
+      stream.on('error', (error) => {
+        console.error(`Failed to write run log for ${containerID}:`, error);
+      });
+      this.streams.set(containerID, stream);
+    }
+    this.pendingWrites.set(
+      containerID,
+      new Promise((resolve) => {
+        stream.write(line, () => resolve());
+      })
+    );
+
+    const changed = applyMessage(record, message, Buffer.byteLength(line));
+    if (message.type === MessageType.COMPLETE) {
+      this.closeStream(containerID);
+    }
+    if (changed) {
+      await this.saveRecord(record);
+    }
+  }
+
+  async getRun(containerID: string): Promise<RunRecord | null> {
+    return this.runs.get(containerID) ?? null;
+  }
+
+  async listRuns(): Promise<RunRecord[]> {
+    return Array.from(this.runs.values()).sort(
+      (a, b) => Date.parse(b.startedAt) - Date.parse(a.startedAt)
+    );
+  }
+
+  async getMessages(
+    containerID: string,
+    options?: ReplayOptions
+  ): Promise<Message[]> {
+    if (!this.runs.has(containerID)) {
+      return [];
+    }
+    // Writes complete in order, so once the last is flushed all of them are
+    await this.pendingWrites.get(containerID);
+
+    let content: string;
+    try {
+      content = await readFile(`${this.basePath(containerID)}.ndjson`, 'utf8');
+    } catch {
+      return [];
+    }
+
+    const messages: Message[] = [];
+    for (const line of content.split('\n')) {
+      if (line.trim() === '') {
+        continue;
+      }
+      try {
+        messages.push(JSON.parse(line) as Message);
+      } catch {
+        // Ignore a partially written trailing line
+      }
+    }
+
+    return filterMessages(messages, options);
+  }
+
+  async prune(): Promise<number> {
+    const expired = selectExpiredRuns(
+      Array.from(this.runs.values()),
+      this.retention
+    );
+
+    for (const run of expired) {
+      this.closeStream(run.containerID);
+      this.runs.delete(run.containerID);
+      this.pendingSaves.delete(run.containerID);
+      this.pendingWrites.delete(run.containerID);
+      const base = this.basePath(run.containerID);
+      await rm(`${base}.ndjson`, { force: true });
+      await rm(`${base}.json`, { force: true });
+    }
+
+    return expired.length;
+  }
+
+  async close(): Promise<void> {
+    for (const containerID of Array.from(this.streams.keys())) {
+      this.closeStream(containerID);
+    }
+    await Promise.all(
+      Array.from(this.runs.values()).map((record) => this.saveRecord(record))
+    );
+  }
+
+  /**
+   * Write a run's metadata file, serialising writes per container
+   */
+  private async saveRecord(record: RunRecord): Promise<void> {
+    const previous = this.pendingSaves.get(record.containerID);
+    const next = (previous ?? Promise.resolve())
+      .catch(() => {})
+      .then(() =>
+        writeFile(
+          `${this.basePath(record.containerID)}.json`,
+          JSON.stringify(record, null, 2)
+        )
+      );
+
+    this.pendingSaves.set(record.containerID, next);
+    await next;
+  }
+
+  /**
+   * Close a container's log stream
+   */
+  private closeStream(containerID: string): void {
+    const stream = this.streams.get(containerID);
+    if (stream) {
+      stream.end();
+      this.streams.delete(containerID);
+    }
+  }
+}
@@ -0,0 +1,445 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { parse } from 'node:url';
+import type { Logger } from 'pino';
+import { authenticate } from './auth.js';
+import type { AuthContext, TokenAuthority } from './auth.js';
+import { sumUsage } from './run-store.js';
+import type { RunStore } from './run-store.js';
+import type { SessionManager } from './session-manager.js';
+import type {
+  ArtifactData,
+  BatchSummary,
+  ReplayOptions,
+  RunRecord,
+  RunSummary,
+  ServerStats,
+} from './types.js';
+import { MessageType } from './types.js';
+
+export interface HttpApiOptions {
+  adminToken: string;
+  authority: TokenAuthority;
+  runStore: RunStore;
+  sessionManager: SessionManager;
+  logger: Logger;
+}
+
+type Query = Record<string, string | string[] | undefined>;
+
+class HttpError extends Error {
+  constructor(
+    public statusCode: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * Write a JSON response
+ */
+function sendJson(
+  res: ServerResponse,
+  statusCode: number,
+  body: unknown
+): void {
+  res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Read and parse a JSON request body
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, 'Request body too large');
+    }
+    chunks.push(chunk);
+  }
+
+  if (size === 0) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString());
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON');
+  }
+}
+
+/**
+ * Mint a scoped token. Requires the admin token.
+ */
+async function handleMintToken(
+  req: IncomingMessage,
+  res: ServerResponse,
+  auth: AuthContext,
+  options: HttpApiOptions
+): Promise<void> {
+  if (!auth.admin) {
+    throw new HttpError(403, 'Minting tokens requires the admin token');
+  }
+
+  const body = (await readJsonBody(req)) as {
+    containerID?: unknown;
+    role?: unknown;
+    ttl?: unknown;
+  };
+
+  if (typeof body.containerID !== 'string' || body.containerID === '') {
+    throw new HttpError(400, 'containerID is required');
+  }
+  if (body.role !== 'producer' && body.role !== 'viewer') {
+    throw new HttpError(400, 'role must be "producer" or "viewer"');
+  }
+  if (body.ttl !== undefined && typeof body.ttl !== 'number') {
+    throw new HttpError(400, 'ttl must be a number of seconds');
+  }
+
+  const { token, claims } = options.authority.mint(
+    body.containerID,
+    body.role,
+    body.ttl
+  );
+
+  options.logger.info(
+    { containerID: claims.containerID, role: claims.role, exp: claims.exp },
+    'Minted scoped token'
+  );
+
+  sendJson(res, 201, {
+    token,
+    containerID: claims.containerID,
+    role: claims.role,
+    expiresAt: new Date(claims.exp * 1000).toISOString(),
+  });
+}
+
+/**
+ * Allow the admin token or a viewer token scoped to the container
+ */
+function assertCanView(auth: AuthContext, containerID: string): void {
+  if (
+    !auth.admin &&
+    (auth.claims.role !== 'viewer' || auth.claims.containerID !== containerID)
+  ) {
+    throw new HttpError(403, 'Token is not valid for this container');
+  }
+}
+
+/**
+ * Decode a percent-encoded path segment, rejecting malformed escapes
+ */
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new HttpError(400, `Malformed path segment: ${segment}`);
+  }
+}
+
+/**
+ * Parse a `since` query value: a sequence number or a timestamp
+ */
+function parseSince(value: string | string[] | undefined): ReplayOptions {
+  if (value === undefined) {
+    return {};
+  }
+  if (typeof value !== 'string' || value === '') {
+    throw new HttpError(400, 'since must be a sequence number or timestamp');
+  }
+  if (/^\d+$/.test(value)) {
+    return { sinceSeq: Number.parseInt(value, 10) };
+  }
+
+  const sinceTime = new Date(value);
+  if (Number.isNaN(sinceTime.getTime())) {
+    throw new HttpError(400, 'since must be a sequence number or timestamp');
+  }
+  return { sinceTime };
+}
+
+/**
+ * Combine stored runs with their live session state
+ */
+function summariseRuns(
+  runs: RunRecord[],
+  sessionManager: SessionManager
+): RunSummary[] {
+  const sessions = new Map(
+    sessionManager
+      .getContainerSessions()
+      .map((session) => [session.containerID, session])
+  );
+
+  return runs.map((run) => ({
+    ...run,
+    live: sessionManager.getProducer(run.containerID) !== undefined,
+    viewers: sessionManager.getConnectionCount(run.containerID),
+    lastActivity: sessions.get(run.containerID)?.lastActivity.toISOString(),
+  }));
+}
+
+/**
+ * Look up a run the caller may view, or fail with 404
+ */
+async function findRun(
+  auth: AuthContext,
+  containerID: string,
+  options: HttpApiOptions
+): Promise<RunRecord> {
+  assertCanView(auth, containerID);
+
+  const run = await options.runStore.getRun(containerID);
+  if (!run) {
+    throw new HttpError(404, `No stored run for container ${containerID}`);
+  }
+  return run;
+}
+
+/**
+ * List runs, newest first. Scoped tokens only see their own container.
+ */
+async function handleListRuns(
+  res: ServerResponse,
+  auth: AuthContext,
+  query: Query,
+  options: HttpApiOptions
+): Promise<void> {
+  const limit =
+    query.limit !== undefined ? Number.parseInt(String(query.limit), 10) : 0;
+  if (Number.isNaN(limit) || limit < 0) {
+    throw new HttpError(400, 'limit must be a non-negative integer');
+  }
+
+  let runs = await options.runStore.listRuns();
+  if (!auth.admin) {
+    const { containerID } = auth.claims;
+    runs = runs.filter((run) => run.containerID === containerID);
+  }
+  if (typeof query.status === 'string') {
+    runs = runs.filter((run) => run.status === query.status);
+  }
+  if (typeof query.phase === 'string') {
+    runs = runs.filter((run) => run.phase === query.phase);
+  }
+  if (typeof query.batch === 'string') {
+    runs = runs.filter((run) => run.batchID === query.batch);
+  }
+  if (limit > 0) {
+    runs = runs.slice(0, limit);
+  }
+
+  sendJson(res, 200, { runs: summariseRuns(runs, options.sessionManager) });
+}
+
+/**
+ * Return a run's metadata and live session state
+ */
+async function handleGetRun(
+  res: ServerResponse,
+  auth: AuthContext,
+  containerID: string,
+  options: HttpApiOptions
+): Promise<void> {
+  const run = await findRun(auth, containerID, options);
+  const [summary] = summariseRuns([run], options.sessionManager);
+  sendJson(res, 200, summary);
+}
+
+/**
+ * Return a stored run's metadata and message log, optionally only the
+ * messages after `since`
+ */
+async function handleGetRunLogs(
+  res: ServerResponse,
+  auth: AuthContext,
+  containerID: string,
+  query: Query,
+  options: HttpApiOptions
+): Promise<void> {
+  const since = parseSince(query.since);
+  const run = await findRun(auth, containerID, options);
+  const messages = await options.runStore.getMessages(containerID, since);
+  sendJson(res, 200, { run, messages });
+}
+
+/**
+ * Return the run's most recent patch artifact
+ */
+async function handleGetRunPatch(
+  res: ServerResponse,
+  auth: AuthContext,
+  containerID: string,
+  options: HttpApiOptions
+): Promise<void> {
+  await findRun(auth, containerID, options);
+
+  const artifact = (await options.runStore.getMessages(containerID))
+    .filter((message) => message.type === MessageType.ARTIFACT)
+    .map((message) => message.data as ArtifactData)
+    .filter((data) => data.kind === 'patch')
+    .pop();
+  if (!artifact) {
+    throw new HttpError(404, `No patch for container ${containerID}`);
+  }
+
+  sendJson(res, 200, artifact);
+}
+
+/**
+ * Count runs by status
+ */
+function countByStatus(runs: RunRecord[]): Record<string, number> {
+  const byStatus: Record<string, number> = {};
+  for (const run of runs) {
+    const status = run.status ?? 'unknown';
+    byStatus[status] = (byStatus[status] ?? 0) + 1;
+  }
+  return byStatus;
+}
+
+/**
+ * Return a batch's runs and their combined usage. Requires the admin token,
+ * since scoped tokens only cover a single container.
+ */
+async function handleGetBatch(
+  res: ServerResponse,
+  auth: AuthContext,
+  batchID: string,
+  options: HttpApiOptions
+): Promise<void> {
+  if (!auth.admin) {
+    throw new HttpError(403, 'Batches require the admin token');
+  }
+
+  const runs = (await options.runStore.listRuns()).filter(
+    (run) => run.batchID === batchID
+  );
+  if (runs.length === 0) {
+    throw new HttpError(404, `Batch ${batchID} not found`);
+  }
+
+  const batch: BatchSummary = {
+    batchID,
+    runs: summariseRuns(runs, options.sessionManager),
+    byStatus: countByStatus(runs),
+    usage: sumUsage(runs),
+  };
+  sendJson(res, 200, batch);
+}
+
+/**
+ * Return session and run statistics. Requires the admin token.
+ */
+async function handleGetStats(
+  res: ServerResponse,
+  auth: AuthContext,
+  options: HttpApiOptions
+): Promise<void> {
+  if (!auth.admin) {
+    throw new HttpError(403, 'Statistics require the admin token');
+  }
+
+  const runs = await options.runStore.listRuns();
+
+  const stats: ServerStats = {
+    sessions: options.sessionManager.getStats(),
+    runs: {
+      total: runs.length,
+      live: options.sessionManager.getProducerContainers().length,
+      byStatus: countByStatus(runs),
+      storedBytes: runs.reduce((sum, run) => sum + run.bytes, 0),
+      usage: sumUsage(runs),
+    },
+  };
+  sendJson(res, 200, stats);
+}
+
+/**
+ * Create the request handler for the HTTP API served alongside the
+ * WebSocket endpoint
+ */
+export function createHttpHandler(
+  options: HttpApiOptions
+): (req: IncomingMessage, res: ServerResponse) => void {
+  return (req, res) => {
+    const { pathname, query } = parse(req.url || '', true);
+
+    const handle = async () => {
+      const auth = authenticate(req, options.adminToken, options.authority);
+      if (!auth) {
+        throw new HttpError(401, 'Authentication required');
+      }
+
+      if (req.method === 'POST' && pathname === '/tokens') {
+        await handleMintToken(req, res, auth, options);
+        return;
+      }
+
+      if (req.method === 'GET') {
+        if (pathname === '/runs') {
+          await handleListRuns(res, auth, query, options);
+          return;
+        }
+        if (pathname === '/stats') {
+          await handleGetStats(res, auth, options);
+          return;
+        }
+
+        const batchRoute = pathname?.match(/^\/batches\/([^/]+)$/);
+        if (batchRoute) {
+          await handleGetBatch(
+            res,
+            auth,
+            decodeSegment(batchRoute[1]),
+            options
+          );
+          return;
+        }
+
+        const runRoute = pathname?.match(
+          /^\/runs\/([^/]+)(?:\/(logs|patch))?$/
+        );
+        if (runRoute) {
+          const containerID = decodeSegment(runRoute[1]);
+          switch (runRoute[2]) {
+            case 'logs':
+              await handleGetRunLogs(res, auth, containerID, query, options);
+              break;
+            case 'patch':
+              await handleGetRunPatch(res, auth, containerID, options);
+              break;
+            default:
+              await handleGetRun(res, auth, containerID, options);
+          }
+          return;
+        }
+      }
+
+      throw new HttpError(404, 'Not found');
+    };
+
+    handle().catch((error: unknown) => {
+      if (error instanceof HttpError) {
+        sendJson(res, error.statusCode, { error: error.message });
+        return;
+      }
+
+      options.logger.error(
+        { error, method: req.method, pathname },
+        'HTTP request failed'
+      );
+      sendJson(res, 500, { error: 'Internal server error' });
+    });
+  };
+}
@@ -1,15 +1,30 @@
+import { randomBytes } from 'node:crypto';
 import { createServer } from 'node:http';
+import type { IncomingMessage } from 'node:http';
 import { parse } from 'node:url';
 import dotenv from 'dotenv';
 import pino from 'pino';
 import { WebSocket, WebSocketServer } from 'ws';
+import { TokenAuthority, authenticate, redactUrl } from './auth.js';
+import type { AuthContext } from './auth.js';
+import { FileRunStore } from './file-run-store.js';
+import { createHttpHandler } from './http-api.js';
+import type { RunStore } from './run-store.js';
 import { SessionManager } from './session-manager.js';
 import type {
+  ArtifactData,
+  ClaudeEventData,
   CompleteData,
+  ConnectionRole,
+  ControlAckData,
+  ControlAction,
+  ControlData,
   ErrorData,
   HeartbeatData,
   LogData,
   Message,
+  ReplayOptions,
+  RunInfoData,
   StatusData,
 } from './types.js';
 import { MessageType } from './types.js';
@@ -27,42 +42,182 @@ const logger = pino({
 });
 
 const PORT = Number.parseInt(process.env.PORT || '8080', 10);
-const AUTH_TOKEN = process.env.AUTH_TOKEN || 'default-token';
+// Without AUTH_TOKEN a random admin token is generated and printed at startup
+const AUTH_TOKEN =
+  process.env.AUTH_TOKEN || randomBytes(24).toString('base64url');
+const TOKEN_SECRET = process.env.TOKEN_SECRET;
+const TOKEN_MAX_TTL = Number.parseInt(process.env.TOKEN_MAX_TTL || '86400', 10); // 24 hours, in seconds
 const HEARTBEAT_INTERVAL = Number.parseInt(
   process.env.HEARTBEAT_INTERVAL || '30000',
   10
 ); // 30 seconds
+const REPLAY_MAX_MESSAGES = Number.parseInt(
+  process.env.REPLAY_MAX_MESSAGES || '5000',
+  10
+);
+const REPLAY_MAX_BYTES = Number.parseInt(
+  process.env.REPLAY_MAX_BYTES || `${5 * 1024 * 1024}`,
+  10
+); // 5 MB per container
+const REPLAY_RETENTION = Number.parseInt(
+  process.env.REPLAY_RETENTION || '3600000',
+  10
+); // 1 hour
+
+const RUN_STORE_DIR = process.env.RUN_STORE_DIR || './data/runs';
+const RUN_STORE_MAX_AGE = Number.parseInt(
+  process.env.RUN_STORE_MAX_AGE || `${7 * 24 * 60 * 60 * 1000}`,
+  10
+); // 7 days
+const RUN_STORE_MAX_BYTES = Number.parseInt(
+  process.env.RUN_STORE_MAX_BYTES || `${1024 * 1024 * 1024}`,
+  10
+); // 1 GB
+const RUN_STORE_PRUNE_INTERVAL = 10 * 60 * 1000; // 10 minutes
 
-const sessionManager = new SessionManager();
+const tokenAuthority = new TokenAuthority(TOKEN_SECRET, TOKEN_MAX_TTL);
+
+const sessionManager = new SessionManager({
+  replay: {
+    maxMessages: REPLAY_MAX_MESSAGES,
+    maxBytes: REPLAY_MAX_BYTES,
+  },
+  replayRetention: REPLAY_RETENTION,
+});
+
+const runStore: RunStore = new FileRunStore({
+  directory: RUN_STORE_DIR,
+  retention: {
+    maxAge: RUN_STORE_MAX_AGE,
+    maxBytes: RUN_STORE_MAX_BYTES,
+  },
+});
 
 interface ConnectionInfo {
   isAlive: boolean;
   lastPong: Date;
   containerID?: string;
+  role: ConnectionRole;
   authenticated: boolean;
 }
 
 const connectionInfo = new WeakMap<WebSocket, ConnectionInfo>();
+const requestAuth = new WeakMap<IncomingMessage, AuthContext>();
 
 /**
- * Authenticate connection via query parameters.
+ * Authenticate connection via the Authorization/X-Auth-Token headers or the
+ * token query parameter. Tokens are never logged.
  */
-function authenticateConnection(url: string): boolean {
-  try {
-    const parsed = parse(url, true);
-    const token = parsed.query.token;
+function authenticateConnection(req: IncomingMessage): AuthContext | null {
+  const auth = authenticate(req, AUTH_TOKEN, tokenAuthority);
 
-    if (!token || token !== AUTH_TOKEN) {
-      logger.warn({ url, token }, 'Authentication failed');
-      return false;
-    }
+  if (!auth) {
+    logger.warn({ url: redactUrl(req.url || '') }, 'Authentication failed');
+    return null;
+  }
+
+  logger.info(
+    auth.admin
+      ? { admin: true }
+      : { containerID: auth.claims.containerID, role: auth.claims.role },
+    'Connection authenticated successfully'
+  );
+  return auth;
+}
 
-    logger.info({ token }, 'Connection authenticated successfully');
+/**
+ * Parse the connection role from query parameters. Connections that do not
+ * declare a role get the fallback role.
+ */
+function parseRole(
+  query: Record<string, string | string[] | undefined>,
+  fallback: ConnectionRole
+): ConnectionRole | null {
+  const role = query.role ?? fallback;
+  if (role === 'producer' || role === 'viewer') {
+    return role;
+  }
+  return null;
+}
+
+/**
+ * Send an error to a single connection
+ */
+function sendError(
+  ws: WebSocket,
+  containerID: string,
+  error: string,
+  code: string
+): void {
+  if (ws.readyState !== WebSocket.OPEN) {
+    return;
+  }
+
+  const errorMessage: Message = {
+    type: MessageType.ERROR,
+    containerID,
+    timestamp: new Date().toISOString(),
+    data: { error, code } as ErrorData,
+  };
+  ws.send(JSON.stringify(errorMessage));
+}
+
+const CONTROL_ACTIONS: ControlAction[] = ['CANCEL', 'EXTEND_TIMEOUT', 'PING'];
+
+/**
+ * Check whether a connection may publish a message. Viewers may only send
+ * heartbeats and control requests for the container they are subscribed to;
+ * producers may only publish for the container they are bound to.
+ */
+function canPublish(
+  ws: WebSocket,
+  info: ConnectionInfo,
+  message: Message
+): boolean {
+  if (message.type === MessageType.HEARTBEAT) {
     return true;
-  } catch (error) {
-    logger.error({ error, url }, 'Error parsing authentication parameters');
+  }
+
+  if (message.type === MessageType.CONTROL) {
+    return info.role === 'viewer' && message.containerID === info.containerID;
+  }
+
+  if (info.role !== 'producer') {
     return false;
   }
+
+  return (
+    message.containerID === info.containerID &&
+    sessionManager.isProducer(message.containerID, ws)
+  );
+}
+
+/**
+ * Parse replay options from connection query parameters.
+ * Returns null when the viewer opted out with replay=false.
+ */
+function parseReplayOptions(
+  query: Record<string, string | string[] | undefined>
+): ReplayOptions | null {
+  if (query.replay === 'false' || query.replay === '0') {
+    return null;
+  }
+
+  const options: ReplayOptions = {};
+
+  const sinceSeq = Number.parseInt(String(query.sinceSeq ?? ''), 10);
+  if (!Number.isNaN(sinceSeq)) {
+    options.sinceSeq = sinceSeq;
+  }
+
+  if (typeof query.sinceTime === 'string') {
+    const sinceTime = new Date(query.sinceTime);
+    if (!Number.isNaN(sinceTime.getTime())) {
+      options.sinceTime = sinceTime;
+    }
+  }
+
+  return options;
 }
 
 /**
@@ -107,6 +262,25 @@ function handleMessage(ws: WebSocket, message: Message): void {
     return;
   }
 
+  if (!canPublish(ws, info, message)) {
+    logger.warn(
+      {
+        type: message.type,
+        containerID: message.containerID,
+        role: info.role,
+        boundContainerID: info.containerID,
+      },
+      'Rejected message from connection without publish permission'
+    );
+    sendError(
+      ws,
+      message.containerID,
+      `Not allowed to publish ${message.type} for ${message.containerID}`,
+      'FORBIDDEN'
+    );
+    return;
+  }
+
   logger.info(
     {
       type: message.type,
@@ -129,6 +303,21 @@ function handleMessage(ws: WebSocket, message: Message): void {
     case MessageType.COMPLETE:
       handleCompleteMessage(message);
       break;
+    case MessageType.RUN_INFO:
+      handleRunInfoMessage(message);
+      break;
+    case MessageType.CLAUDE_EVENT:
+      handleClaudeEventMessage(message);
+      break;
+    case MessageType.ARTIFACT:
+      handleArtifactMessage(message);
+      break;
+    case MessageType.CONTROL:
+      handleControlMessage(ws, message);
+      break;
+    case MessageType.CONTROL_ACK:
+      handleControlAckMessage(message);
+      break;
     case MessageType.HEARTBEAT:
       handleHeartbeatMessage(ws, message);
       break;
@@ -137,6 +326,39 @@ function handleMessage(ws: WebSocket, message: Message): void {
   }
 }
 
+/**
+ * Deliver a container message to its viewers and persist it
+ */
+function publish(message: Message): void {
+  const delivered = sessionManager.broadcast(message.containerID, message);
+
+  runStore.append(delivered).catch((error) => {
+    logger.error(
+      { error, containerID: message.containerID },
+      'Failed to persist message'
+    );
+  });
+}
+
+/**
+ * Handle run info messages
+ */
+function handleRunInfoMessage(message: Message): void {
+  const runInfo = message.data as RunInfoData;
+
+  logger.info(
+    {
+      containerID: message.containerID,
+      repoUrl: runInfo.repoUrl,
+      model: runInfo.model,
+      startedAt: runInfo.startedAt,
+    },
+    'Container run started'
+  );
+
+  publish(message);
+}
+
 /**
  * Handle log messages
  */
@@ -153,7 +375,57 @@ function handleLogMessage(message: Message): void {
     'Container log'
   );
 
-  sessionManager.broadcast(message.containerID, message);
+  publish(message);
+}
+
+/**
+ * Handle structured Claude events. Only final results are logged at info
+ * level; turns and tool calls are forwarded to viewers.
+ */
+function handleClaudeEventMessage(message: Message): void {
+  const event = message.data as ClaudeEventData;
+
+  if (event.kind === 'result') {
+    logger.info(
+      {
+        containerID: message.containerID,
+        subtype: event.subtype,
+        numTurns: event.numTurns,
+        costUsd: event.costUsd,
+      },
+      'Claude run result'
+    );
+  } else {
+    logger.debug(
+      {
+        containerID: message.containerID,
+        kind: event.kind,
+        tool: event.kind === 'tool_use' ? event.name : undefined,
+      },
+      'Claude event'
+    );
+  }
+
+  publish(message);
+}
+
+/**
+ * Handle artifact messages
+ */
+function handleArtifactMessage(message: Message): void {
+  const artifact = message.data as ArtifactData;
+
+  logger.info(
+    {
+      containerID: message.containerID,
+      kind: artifact.kind,
+      files: artifact.files.length,
+      truncated: artifact.truncated,
+    },
+    'Container artifact'
+  );
+
+  publish(message);
 }
 
 /**
@@ -171,7 +443,7 @@ function handleStatusMessage(message: Message): void {
     'Container status update'
   );
 
-  sessionManager.broadcast(message.containerID, message);
+  publish(message);
 }
 
 /**
@@ -190,7 +462,7 @@ function handleErrorMessage(message: Message): void {
     'Container error'
   );
 
-  sessionManager.broadcast(message.containerID, message);
+  publish(message);
 }
 
 /**
@@ -209,7 +481,77 @@ function handleCompleteMessage(message: Message): void {
     'Container completed'
   );
 
-  sessionManager.broadcast(message.containerID, message);
+  publish(message);
+}
+
+/**
+ * Route a viewer's control request to the container's producer. The
+ * producer answers with a CONTROL_ACK that is broadcast to viewers.
+ */
+function handleControlMessage(ws: WebSocket, message: Message): void {
+  const control = message.data as ControlData;
+
+  if (
+    !CONTROL_ACTIONS.includes(control.action) ||
+    typeof control.requestId !== 'string'
+  ) {
+    sendError(
+      ws,
+      message.containerID,
+      'Invalid control request',
+      'INVALID_CONTROL'
+    );
+    return;
+  }
+
+  const producer = sessionManager.getProducer(message.containerID);
+  if (!producer || producer.readyState !== WebSocket.OPEN) {
+    sendError(
+      ws,
+      message.containerID,
+      `Container ${message.containerID} is not connected`,
+      'NOT_CONNECTED'
+    );
+    return;
+  }
+
+  logger.info(
+    {
+      containerID: message.containerID,
+      action: control.action,
+      requestId: control.requestId,
+      reason: control.reason,
+    },
+    'Routing control request to container'
+  );
+
+  const routed: Message = {
+    type: MessageType.CONTROL,
+    containerID: message.containerID,
+    timestamp: new Date().toISOString(),
+    data: control,
+  };
+  producer.send(JSON.stringify(routed));
+}
+
+/**
+ * Handle control acknowledgements from containers
+ */
+function handleControlAckMessage(message: Message): void {
+  const ack = message.data as ControlAckData;
+
+  logger.info(
+    {
+      containerID: message.containerID,
+      action: ack.action,
+      requestId: ack.requestId,
+      accepted: ack.accepted,
+      ackMessage: ack.message,
+    },
+    'Container control acknowledgement'
+  );
+
+  publish(message);
 }
 
 /**
@@ -297,49 +639,119 @@ function cleanupDeadConnections(): void {
     }
   }
 
+  for (const containerID of sessionManager.getProducerContainers()) {
+    const ws = sessionManager.getProducer(containerID);
+    const info = ws && connectionInfo.get(ws);
+
+    if (ws && (!info || !info.isAlive)) {
+      logger.info({ containerID }, 'Removing dead producer');
+      sessionManager.removeProducer(ws);
+      ws.terminate();
+      cleanedUp++;
+    } else if (info) {
+      info.isAlive = false;
+    }
+  }
+
   if (cleanedUp > 0) {
     logger.info({ cleanedUp }, 'Cleaned up dead connections');
   }
+
+  const pruned = sessionManager.pruneHistories();
+  if (pruned > 0) {
+    logger.info({ pruned }, 'Pruned idle container histories');
+  }
 }
 
-const server = createServer();
+const server = createServer(
+  createHttpHandler({
+    adminToken: AUTH_TOKEN,
+    authority: tokenAuthority,
+    runStore,
+    sessionManager,
+    logger,
+  })
+);
 
 const wss = new WebSocketServer({
   server,
-  verifyClient: (info: { origin: string; req: { url?: string } }) => {
-    const authenticated = authenticateConnection(info.req.url || '');
-    if (!authenticated) {
+  verifyClient: (info: { origin: string; req: IncomingMessage }) => {
+    const auth = authenticateConnection(info.req);
+    if (!auth) {
       logger.warn(
-        { origin: info.origin, url: info.req.url },
+        { origin: info.origin, url: redactUrl(info.req.url || '') },
         'Rejecting unauthenticated connection'
       );
+      return false;
     }
-    return authenticated;
+    requestAuth.set(info.req, auth);
+    return true;
   },
 });
 
 wss.on('connection', (ws, req) => {
   const url = req.url || '';
   const parsed = parse(url, true);
-  const containerID = parsed.query.containerID as string;
+  const auth = requestAuth.get(req);
+
+  // Scoped tokens imply their container and role
+  const scope = auth && !auth.admin ? auth.claims : undefined;
+  const containerID =
+    (parsed.query.containerID as string | undefined) || scope?.containerID;
+  const role = parseRole(parsed.query, scope?.role ?? 'viewer');
+
+  if (!auth) {
+    ws.close(1008, 'Authentication required');
+    return;
+  }
+
+  if (!role) {
+    logger.warn({ role: parsed.query.role }, 'Rejecting unknown role');
+    ws.close(1008, 'Unknown role');
+    return;
+  }
+
+  if (scope && (scope.containerID !== containerID || scope.role !== role)) {
+    logger.warn(
+      { containerID, role, tokenContainerID: scope.containerID },
+      'Rejecting connection outside token scope'
+    );
+    ws.close(1008, 'Token is not valid for this container or role');
+    return;
+  }
+
+  if (role === 'producer') {
+    if (!containerID) {
+      logger.warn('Rejecting producer without containerID');
+      ws.close(1008, 'Producer requires containerID');
+      return;
+    }
+    if (!sessionManager.registerProducer(containerID, ws)) {
+      logger.warn({ containerID }, 'Rejecting duplicate producer');
+      ws.close(1008, 'Container already has a producer');
+      return;
+    }
+  }
 
   connectionInfo.set(ws, {
     isAlive: true,
     lastPong: new Date(),
     containerID,
+    role,
     authenticated: true,
   });
 
   logger.info(
     {
       containerID,
+      role,
       remoteAddress: req.socket.remoteAddress,
       userAgent: req.headers['user-agent'],
     },
     'WebSocket connection established'
   );
 
-  if (containerID) {
+  if (role === 'viewer' && containerID) {
     sessionManager.addConnection(containerID, ws);
     const welcomeMessage: Message = {
       type: MessageType.STATUS,
@@ -352,6 +764,12 @@ wss.on('connection', (ws, req) => {
     };
 
     ws.send(JSON.stringify(welcomeMessage));
+
+    const replayOptions = parseReplayOptions(parsed.query);
+    if (replayOptions) {
+      const replayed = sessionManager.replay(containerID, ws, replayOptions);
+      logger.debug({ containerID, replayed }, 'Replayed container history');
+    }
   }
 
   ws.on('message', (data) => {
@@ -370,6 +788,7 @@ wss.on('connection', (ws, req) => {
     logger.info(
       {
         containerID: info?.containerID,
+        role: info?.role,
         code,
         reason: reason.toString(),
       },
@@ -404,6 +823,19 @@ const heartbeatInterval = setInterval(() => {
   cleanupDeadConnections();
 }, HEARTBEAT_INTERVAL);
 
+const pruneInterval = setInterval(() => {
+  runStore
+    .prune()
+    .then((pruned) => {
+      if (pruned > 0) {
+        logger.info({ pruned }, 'Pruned stored runs outside retention');
+      }
+    })
+    .catch((error) => {
+      logger.error({ error }, 'Failed to prune stored runs');
+    });
+}, RUN_STORE_PRUNE_INTERVAL);
+
 function gracefulShutdown(signal: string): void {
   logger.info(
     { signal },
@@ -411,6 +843,7 @@ function gracefulShutdown(signal: string): void {
   );
 
   clearInterval(heartbeatInterval);
+  clearInterval(pruneInterval);
 
   wss.close(() => {
     logger.info('WebSocket server closed');
@@ -418,9 +851,13 @@ function gracefulShutdown(signal: string): void {
 
   sessionManager.shutdown();
 
+  const storeClosed = runStore.close().catch((error) => {
+    logger.error({ error }, 'Failed to close run store');
+  });
+
   server.close(() => {
     logger.info('HTTP server closed');
-    process.exit(0);
+    storeClosed.then(() => process.exit(0));
   });
 
   setTimeout(() => {
@@ -442,22 +879,39 @@ process.on('unhandledRejection', (reason, promise) => {
   gracefulShutdown('unhandledRejection');
 });
 
-server.listen(PORT, () => {
-  logger.info(
-    {
-      port: PORT,
-      authToken: `${AUTH_TOKEN.substring(0, 4)}***`,
-      heartbeatInterval: HEARTBEAT_INTERVAL,
-    },
-    'WebSocket server started'
-  );
+runStore
+  .init()
+  .then(() => runStore.prune())
+  .then(() => {
+    server.listen(PORT, () => {
+      logger.info(
+        {
+          port: PORT,
+          generatedAuthToken: !process.env.AUTH_TOKEN,
+          persistentTokenSecret: !!TOKEN_SECRET,
+          heartbeatInterval: HEARTBEAT_INTERVAL,
+          runStoreDir: RUN_STORE_DIR,
+        },
+        'WebSocket server started'
+      );
+      if (!process.env.AUTH_TOKEN) {
+        // Printed once, outside the structured logs
+        process.stderr.write(
+          `Generated admin token (set AUTH_TOKEN to choose one): ${AUTH_TOKEN}\n`
+        );
+      }
 
-  setInterval(() => {
-    const stats = sessionManager.getStats();
-    if (stats.totalConnections > 0) {
-      logger.info(stats, 'Session statistics');
-    }
-  }, 60000);
-});
+      setInterval(() => {
+        const stats = sessionManager.getStats();
+        if (stats.totalConnections > 0) {
+          logger.info(stats, 'Session statistics');
+        }
+      }, 60000);
+    });
+  })
+  .catch((error) => {
+    logger.fatal({ error }, 'Failed to initialise run store');
+    process.exit(1);
+  });
 
-export { sessionManager, logger };
+export { sessionManager, runStore, logger };
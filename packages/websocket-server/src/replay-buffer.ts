@@ -0,0 +1,114 @@
+import type { Message, ReplayOptions } from './types.js';
+
+interface ReplayEntry {
+  seq: number;
+  time: number;
+  size: number;
+  message: Message;
+}
+
+export interface ReplayBufferLimits {
+  maxMessages: number;
+  maxBytes: number;
+}
+
+/**
+ * ReplayBuffer keeps a bounded history of the messages sent for one container
+ * so that viewers joining late can catch up before receiving live messages.
+ * The oldest messages are evicted first once either limit is exceeded.
+ */
+export class ReplayBuffer {
+  private entries: ReplayEntry[] = [];
+  private totalBytes = 0;
+  private nextSeq = 1;
+  private evicted = 0;
+  private limits: ReplayBufferLimits;
+  lastActivity: Date = new Date();
+
+  constructor(limits: ReplayBufferLimits) {
+    this.limits = limits;
+  }
+
+  /**
+   * Record a message, assigning it the next sequence number
+   */
+  append(message: Message): Message {
+    const sequenced: Message = { ...message, seq: this.nextSeq++ };
+    const size = Buffer.byteLength(JSON.stringify(sequenced));
+
+    this.entries.push({
+      seq: sequenced.seq as number,
+      time: Date.parse(message.timestamp) || Date.now(),
+      size,
+      message: sequenced,
+    });
+    this.totalBytes += size;
+    this.lastActivity = new Date();
+
+    while (
+      this.entries.length > 0 &&
+      (this.entries.length > this.limits.maxMessages ||
+        this.totalBytes > this.limits.maxBytes)
+    ) {
+      const removed = this.entries.shift();
+      if (removed) {
+        this.totalBytes -= removed.size;
+        this.evicted++;
+      }
+    }
+
+    return sequenced;
+  }
+
+  /**
+   * Get buffered messages after a sequence number or at/after a timestamp
+   */
+  getMessages(options: ReplayOptions = {}): Message[] {
+    let entries = this.entries;
+
+    if (options.sinceSeq !== undefined) {
+      const sinceSeq = options.sinceSeq;
+      entries = entries.filter((entry) => entry.seq > sinceSeq);
+    }
+
+    if (options.sinceTime !== undefined) {
+      const sinceTime = options.sinceTime.getTime();
+      entries = entries.filter((entry) => entry.time >= sinceTime);
+    }
+
+    return entries.map((entry) => entry.message);
+  }
+
+  /**
+   * Whether messages older than the requested point have been evicted
+   */
+  isTruncated(options: ReplayOptions = {}): boolean {
+    if (this.evicted === 0) {
+      return false;
+    }
+    const firstSeq = this.entries[0]?.seq ?? this.nextSeq;
+    if (options.sinceSeq !== undefined) {
+      return options.sinceSeq < firstSeq - 1;
+    }
+    if (options.sinceTime !== undefined) {
+      const firstTime = this.entries[0]?.time ?? Date.now();
+      return options.sinceTime.getTime() < firstTime;
+    }
+    return true;
+  }
+
+  /**
+   * Sequence number of the most recent message, 0 if none were recorded
+   */
+  get lastSeq(): number {
+    return this.nextSeq - 1;
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  get bytes(): number {
+    return this.totalBytes;
+  }
+}
@@ -0,0 +1,234 @@
+import type {
+  ArtifactData,
+  CompleteData,
+  Message,
+  ReplayOptions,
+  RunInfoData,
+  RunPhase,
+  RunRecord,
+  RunUsage,
+  StatusData,
+} from './types.js';
+import { MessageType } from './types.js';
+
+/**
+ * RunStore persists every message a container publishes together with the
+ * run's metadata, so runs can be inspected after the container has exited.
+ * Implementations must keep each container's messages in arrival order.
+ */
+export interface RunStore {
+  /**
+   * Prepare the backend and load existing runs
+   */
+  init(): Promise<void>;
+
+  /**
+   * Persist a message and update its run's metadata
+   */
+  append(message: Message): Promise<void>;
+
+  getRun(containerID: string): Promise<RunRecord | null>;
+
+  listRuns(): Promise<RunRecord[]>;
+
+  getMessages(containerID: string, options?: ReplayOptions): Promise<Message[]>;
+
+  /**
+   * Delete runs outside the retention limits. Returns the number removed.
+   */
+  prune(): Promise<number>;
+
+  close(): Promise<void>;
+}
+
+export interface RunRetention {
+  maxAge: number; // Delete runs that ended or went quiet longer ago (in ms)
+  maxBytes: number; // Delete the oldest finished runs beyond this total size
+}
+
+/**
+ * Create an empty record for a run first seen at `timestamp`
+ */
+export function createRunRecord(
+  containerID: string,
+  timestamp: string
+): RunRecord {
+  return {
+    containerID,
+    startedAt: timestamp,
+    messageCount: 0,
+    bytes: 0,
+  };
+}
+
+/**
+ * Record a phase change, closing the timing of the previous phase
+ */
+function enterPhase(record: RunRecord, phase: RunPhase, timestamp: string) {
+  const phases = record.phases ?? [];
+  const previous = phases[phases.length - 1];
+  if (previous && previous.duration === undefined) {
+    previous.duration = Date.parse(timestamp) - Date.parse(previous.startedAt);
+  }
+
+  phases.push({ phase, startedAt: timestamp });
+  record.phases = phases;
+  record.phase = phase;
+}
+
+/**
+ * Fold a message into its run's metadata. Returns true when metadata other
+ * than the counters changed.
+ */
+export function applyMessage(
+  record: RunRecord,
+  message: Message,
+  size: number
+): boolean {
+  record.messageCount++;
+  record.bytes += size;
+  record.lastMessageAt = message.timestamp;
+
+  switch (message.type) {
+    case MessageType.RUN_INFO: {
+      const data = message.data as RunInfoData;
+      record.repoUrl = data.repoUrl;
+      record.task = data.task;
+      record.model = data.model;
+      record.baseRef = data.baseRef;
+      record.batchID = data.batchID;
+      record.variables = data.variables;
+      record.startedAt = data.startedAt;
+      return true;
+    }
+    case MessageType.STATUS: {
+      const data = message.data as StatusData;
+      record.status = data.status;
+      if (data.phase && data.phase !== record.phase) {
+        enterPhase(record, data.phase, message.timestamp);
+      }
+      return true;
+    }
+    case MessageType.COMPLETE: {
+      const data = message.data as CompleteData;
+      record.exitCode = data.exitCode;
+      record.duration = data.duration;
+      record.branch = data.branch;
+      record.commitSha = data.commitSha;
+      record.usage = data.usage;
+      record.verification = data.verification;
+      record.attempts = data.attempts;
+      record.endedAt = message.timestamp;
+      record.status =
+        data.outcome ?? (data.exitCode === 0 ? 'completed' : 'failed');
+      if (data.phases) {
+        // The container's own timings are authoritative
+        record.phases = data.phases;
+        record.phase = data.phases[data.phases.length - 1]?.phase;
+      }
+      return true;
+    }
+    case MessageType.ARTIFACT: {
+      const { files } = message.data as ArtifactData;
+      record.changes = {
+        files: files.length,
+        added: files.reduce((sum, file) => sum + file.added, 0),
+        removed: files.reduce((sum, file) => sum + file.removed, 0),
+      };
+      return true;
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Total the usage of a set of runs. The total is marked estimated if any
+ * run's cost was.
+ */
+export function sumUsage(runs: RunRecord[]): RunUsage {
+  const total: RunUsage = {
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationInputTokens: 0,
+    cacheReadInputTokens: 0,
+    costUsd: 0,
+    numTurns: 0,
+  };
+
+  for (const { usage } of runs) {
+    if (!usage) {
+      continue;
+    }
+    total.inputTokens += usage.inputTokens;
+    total.outputTokens += usage.outputTokens;
+    total.cacheCreationInputTokens += usage.cacheCreationInputTokens;
+    total.cacheReadInputTokens += usage.cacheReadInputTokens;
+    total.costUsd += usage.costUsd;
+    total.numTurns += usage.numTurns;
+    if (usage.estimated) {
+      total.estimated = true;
+    }
+  }
+
+  return total;
+}
+
+/**
+ * Filter messages by sequence number or timestamp
+ */
+export function filterMessages(
+  messages: Message[],
+  options: ReplayOptions = {}
+): Message[] {
+  return messages.filter(
+    (message) =>
+      (options.sinceSeq === undefined ||
+        (message.seq ?? 0) > options.sinceSeq) &&
+      (options.sinceTime === undefined ||
+        Date.parse(message.timestamp) >= options.sinceTime.getTime())
+  );
+}
+
+/**
+ * When a run was last active: when it ended, otherwise its last message
+ */
+function lastActive(run: RunRecord): number {
+  return Date.parse(run.endedAt ?? run.lastMessageAt ?? run.startedAt);
+}
+
+/**
+ * Choose which runs to delete to satisfy the retention limits. Runs that
+ * never completed, e.g. because their container died, expire by age once
+ * they have sent nothing for `maxAge`; only finished runs are deleted to
+ * free space.
+ */
+export function selectExpiredRuns(
+  runs: RunRecord[],
+  retention: RunRetention,
+  now = Date.now()
+): RunRecord[] {
+  const expired = new Set<RunRecord>(
+    runs.filter((run) => now - lastActive(run) > retention.maxAge)
+  );
+
+  const finished = runs
+    .filter((run) => run.endedAt)
+    .sort((a, b) => lastActive(a) - lastActive(b));
+
+  let totalBytes = runs
+    .filter((run) => !expired.has(run))
+    .reduce((sum, run) => sum + run.bytes, 0);
+
+  for (const run of finished) {
+    if (totalBytes <= retention.maxBytes) {
+      break;
+    }
+    if (!expired.has(run)) {
+      expired.add(run);
+      totalBytes -= run.bytes;
+    }
+  }
+
+  return Array.from(expired);
+}
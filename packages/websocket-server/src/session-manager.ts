@@ -1,9 +1,26 @@
 import type { WebSocket } from 'ws';
-import type { ContainerSession, Message, SessionStats } from './types.js';
+import { ReplayBuffer } from './replay-buffer.js';
+import type { ReplayBufferLimits } from './replay-buffer.js';
+import type {
+  ContainerSession,
+  Message,
+  ReplayCompleteData,
+  ReplayOptions,
+  SessionStats,
+} from './types.js';
+import { MessageType } from './types.js';
+
+export interface SessionManagerOptions {
+  replay?: Partial<ReplayBufferLimits>;
+  replayRetention?: number; // How long to keep an idle history (in ms)
+}
 
 /**
  * SessionManager handles WebSocket connections organized by container ID.
  * Supports multiple clients watching the same container with broadcast functionality.
+ * Keeps a bounded per-container history so late viewers can be replayed.
+ * Each container has at most one producer (the container itself) bound to it;
+ * all other connections are read-only viewers.
  */
 export class SessionManager {
   private connections: Map<string, Set<WebSocket>>;
@@ -11,14 +28,79 @@ export class SessionManager {
     WebSocket,
     { containerID: string; clientID: string; connectedAt: Date }
   >;
+  private producers: Map<string, WebSocket>;
+  private histories: Map<string, ReplayBuffer>;
+  private replayLimits: ReplayBufferLimits;
+  private replayRetention: number;
 
-  constructor() {
+  constructor(options: SessionManagerOptions = {}) {
     this.connections = new Map();
     this.connectionMetadata = new Map();
+    this.producers = new Map();
+    this.histories = new Map();
+    this.replayLimits = {
+      maxMessages: options.replay?.maxMessages ?? 5000,
+      maxBytes: options.replay?.maxBytes ?? 5 * 1024 * 1024,
+    };
+    this.replayRetention = options.replayRetention ?? 60 * 60 * 1000;
+  }
+
+  /**
+   * Bind a producer connection to a container. Fails if another producer is
+   * still connected for the same container.
+   */
+  registerProducer(containerID: string, ws: WebSocket): boolean {
+    const existing = this.producers.get(containerID);
+    if (existing && existing !== ws && existing.readyState === existing.OPEN) {
+      console.warn(`Container ${containerID} already has a producer`);
+      return false;
+    }
+
+    this.producers.set(containerID, ws);
+
+    ws.on('close', () => {
+      this.removeProducer(ws);
+    });
+
+    console.log(`Registered producer for container ${containerID}`);
+    return true;
   }
 
   /**
-   * Add a WebSocket connection for a specific container
+   * Unbind a producer connection from its container
+   */
+  removeProducer(ws: WebSocket): void {
+    for (const [containerID, producer] of this.producers) {
+      if (producer === ws) {
+        this.producers.delete(containerID);
+        console.log(`Removed producer for container ${containerID}`);
+      }
+    }
+  }
+
+  /**
+   * Check whether a connection is the producer bound to a container
+   */
+  isProducer(containerID: string, ws: WebSocket): boolean {
+    return this.producers.get(containerID) === ws;
+  }
+
+  /**
+   * Get all container IDs that have a producer bound
+   */
+  getProducerContainers(): string[] {
+    return Array.from(this.producers.keys());
+  }
+
+  /**
+   * Get the producer connection bound to a container, if any
+   */
+  getProducer(containerID: string): WebSocket | undefined {
+    return this.producers.get(containerID);
+  }
+
+  /**
+   * Add a viewer WebSocket connection for a specific container
    */
   addConnection(containerID: string, ws: WebSocket, clientID?: string): void {
     if (!this.connections.has(containerID)) {
@@ -80,15 +162,22 @@ export class SessionManager {
   }
 
   /**
-   * Broadcast a message to all connections watching a specific container
+   * Broadcast a message to all connections watching a specific container.
+   * Messages other than heartbeats are recorded for replay first.
+   * Returns the message as delivered, including its sequence number.
    */
-  broadcast(containerID: string, message: Message): void {
+  broadcast(containerID: string, message: Message): Message {
+    const delivered =
+      message.type === MessageType.HEARTBEAT
+        ? message
+        : this.getHistory(containerID).append(message);
+
     const containerConnections = this.connections.get(containerID);
     if (!containerConnections || containerConnections.size === 0) {
-      return;
+      return delivered;
     }
 
-    const messageString = JSON.stringify(message);
+    const messageString = JSON.stringify(delivered);
     const deadConnections: WebSocket[] = [];
 
     for (const ws of containerConnections) {
@@ -111,6 +200,78 @@ export class SessionManager {
     console.log(
       `Broadcasted message to ${containerConnections.size - deadConnections.length} connections for container ${containerID}`
     );
+
+    return delivered;
+  }
+
+  /**
+   * Get or create the replay history for a container
+   */
+  private getHistory(containerID: string): ReplayBuffer {
+    let history = this.histories.get(containerID);
+    if (!history) {
+      history = new ReplayBuffer(this.replayLimits);
+      this.histories.set(containerID, history);
+    }
+    return history;
+  }
+
+  /**
+   * Send a container's buffered history to a single connection, followed by
+   * a REPLAY_COMPLETE marker. Returns the number of messages replayed.
+   */
+  replay(
+    containerID: string,
+    ws: WebSocket,
+    options: ReplayOptions = {}
+  ): number {
+    const history = this.histories.get(containerID);
+    const messages = history ? history.getMessages(options) : [];
+
+    for (const message of messages) {
+      if (ws.readyState !== ws.OPEN) {
+        return 0;
+      }
+      ws.send(JSON.stringify(message));
+    }
+
+    const marker: Message = {
+      type: MessageType.REPLAY_COMPLETE,
+      containerID,
+      timestamp: new Date().toISOString(),
+      data: {
+        count: messages.length,
+        lastSeq: history?.lastSeq ?? 0,
+        truncated: history?.isTruncated(options) ?? false,
+      } as ReplayCompleteData,
+    };
+
+    if (ws.readyState === ws.OPEN) {
+      ws.send(JSON.stringify(marker));
+    }
+
+    return messages.length;
+  }
+
+  /**
+   * Drop histories of containers that have been idle for longer than the
+   * retention period and have no viewers. Returns the number removed.
+   */
+  pruneHistories(): number {
+    const cutoff = Date.now() - this.replayRetention;
+    let pruned = 0;
+
+    for (const [containerID, history] of this.histories) {
+      if (
+        history.lastActivity.getTime() < cutoff &&
+        this.getConnectionCount(containerID) === 0
+      ) {
+        this.histories.delete(containerID);
+        pruned++;
+      }
+    }
+
+    return pruned;
   }
 
   /**
@@ -136,17 +297,25 @@ export class SessionManager {
    */
   getStats(): SessionStats {
     const connectionsPerContainer: Record<string, number> = {};
-    let totalConnections = 0;
+    let totalViewers = 0;
 
     for (const [containerID, connections] of this.connections) {
       const count = connections.size;
       connectionsPerContainer[containerID] = count;
-      totalConnections += count;
+      totalViewers += count;
     }
 
+    const totalProducers = this.producers.size;
+    const containers = new Set([
+      ...this.connections.keys(),
+      ...this.producers.keys(),
+    ]);
+
     return {
-      totalConnections,
-      activeContainers: this.connections.size,
+      totalConnections: totalViewers + totalProducers,
+      totalProducers,
+      totalViewers,
+      activeContainers: containers.size,
       connectionsPerContainer,
     };
   }
@@ -219,8 +388,16 @@ export class SessionManager {
       }
     }
 
+    for (const producer of this.producers.values()) {
+      if (producer.readyState === producer.OPEN) {
+        producer.close(1000, 'Server shutting down');
+      }
+    }
+
     this.connections.clear();
     this.connectionMetadata.clear();
+    this.producers.clear();
+    this.histories.clear();
     console.log('SessionManager shutdown complete');
   }
 
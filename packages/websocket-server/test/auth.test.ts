@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { TokenAuthority } from '../src/auth.js';
+
+describe('TokenAuthority', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('verifies the tokens it mints', () => {
+    const authority = new TokenAuthority('secret');
+    const { token, claims } = authority.mint('run-1', 'viewer', 60);
+
+    expect(authority.verify(token)).toEqual(claims);
+    expect(claims).toMatchObject({ containerID: 'run-1', role: 'viewer' });
+    expect(claims.exp - claims.iat).toBe(60);
+  });
+
+  it('clamps the lifetime to the maximum', () => {
+    const authority = new TokenAuthority('secret', 300);
+    const { claims } = authority.mint('run-1', 'producer', 3600);
+
+    expect(claims.exp - claims.iat).toBe(300);
+  });
+
+  it('rejects expired tokens', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    const authority = new TokenAuthority('secret');
+    const { token } = authority.mint('run-1', 'viewer', 60);
+
+    vi.setSystemTime(new Date('2026-01-01T00:00:59Z'));
+    expect(authority.verify(token)).not.toBeNull();
+    vi.setSystemTime(new Date('2026-01-01T00:01:00Z'));
+    expect(authority.verify(token)).toBeNull();
+  });
+
+  it('rejects tokens with altered claims', () => {
+    const authority = new TokenAuthority('secret');
+    const { token, claims } = authority.mint('run-1', 'viewer');
+    const [, signature] = token.split('.');
+    const forged = Buffer.from(
+      JSON.stringify({ ...claims, containerID: 'run-2' })
+    ).toString('base64url');
+
+    expect(authority.verify(`${forged}.${signature}`)).toBeNull();
+  });
+
+  it('rejects tokens signed with another secret', () => {
+    const { token } = new TokenAuthority('other').mint('run-1', 'viewer');
+
+    expect(new TokenAuthority('secret').verify(token)).toBeNull();
+  });
+
+  it('rejects malformed tokens', () => {
+    const authority = new TokenAuthority('secret');
+    const { token } = authority.mint('run-1', 'viewer');
+
+    expect(authority.verify('')).toBeNull();
+    expect(authority.verify('no-signature')).toBeNull();
+    expect(authority.verify(`${token}.extra`)).toBeNull();
+    expect(authority.verify(`${token.slice(0, -2)}xx`)).toBeNull();
+  });
+});
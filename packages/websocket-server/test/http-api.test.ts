@@ -0,0 +1,84 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { createServer } from 'node:http';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import pino from 'pino';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { TokenAuthority } from '../src/auth.js';
+import { FileRunStore } from '../src/file-run-store.js';
+import { createHttpHandler } from '../src/http-api.js';
+import { SessionManager } from '../src/session-manager.js';
+import { MessageType } from '../src/types.js';
+
+describe('HTTP API', () => {
+  let directory: string;
+  let runStore: FileRunStore;
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'http-api-'));
+    runStore = new FileRunStore({
+      directory,
+      retention: { maxAge: 60 * 60 * 1000, maxBytes: 1e9 },
+    });
+    await runStore.init();
+    await runStore.append({
+      type: MessageType.LOG,
+      containerID: 'run 1',
+      timestamp: '2026-01-01T00:00:00Z',
+      data: { level: 'info', message: 'Cloning' },
+    });
+
+    server = createServer(
+      createHttpHandler({
+        adminToken: 'admin',
+        authority: new TokenAuthority('secret'),
+        runStore,
+        sessionManager: new SessionManager(),
+        logger: pino({ level: 'silent' }),
+      })
+    );
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await runStore.close();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  const get = (pathname: string) =>
+    fetch(`${baseUrl}${pathname}`, {
+      headers: { Authorization: 'Bearer admin' },
+    });
+
+  it('rejects malformed path segments with 400', async () => {
+    for (const pathname of ['/runs/%E0', '/runs/%E0/logs', '/batches/%zz']) {
+      const response = await get(pathname);
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        error: expect.stringContaining('Malformed path segment'),
+      });
+    }
+  });
+
+  it('decodes path segments', async () => {
+    const response = await get('/runs/run%201');
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ containerID: 'run 1' });
+  });
+
+  it('returns 404 for unknown runs', async () => {
+    expect((await get('/runs/run%202')).status).toBe(404);
+  });
+
+  it('requires authentication', async () => {
+    expect((await fetch(`${baseUrl}/runs`)).status).toBe(401);
+  });
+});
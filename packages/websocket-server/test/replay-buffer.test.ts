@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { ReplayBuffer } from '../src/replay-buffer.js';
+import type { Message } from '../src/types.js';
+import { MessageType } from '../src/types.js';
+
+function logMessage(text: string, timestamp: string): Message {
+  return {
+    type: MessageType.LOG,
+    containerID: 'run-1',
+    timestamp,
+    data: { level: 'info', message: text },
+  };
+}
+
+function fill(buffer: ReplayBuffer, count: number): void {
+  for (let i = 1; i <= count; i++) {
+    buffer.append(
+      logMessage(`line ${i}`, `2026-01-01T00:00:${String(i).padStart(2, '0')}Z`)
+    );
+  }
+}
+
+describe('ReplayBuffer', () => {
+  it('numbers messages in order', () => {
+    const buffer = new ReplayBuffer({ maxMessages: 10, maxBytes: 1e6 });
+    fill(buffer, 3);
+
+    expect(buffer.getMessages().map((message) => message.seq)).toEqual([
+      1, 2, 3,
+    ]);
+    expect(buffer.lastSeq).toBe(3);
+  });
+
+  it('replays the messages after a sequence number', () => {
+    const buffer = new ReplayBuffer({ maxMessages: 10, maxBytes: 1e6 });
+    fill(buffer, 5);
+
+    expect(
+      buffer.getMessages({ sinceSeq: 3 }).map((message) => message.seq)
+    ).toEqual([4, 5]);
+    expect(buffer.getMessages({ sinceSeq: 5 })).toEqual([]);
+  });
+
+  it('replays the messages at or after a time', () => {
+    const buffer = new ReplayBuffer({ maxMessages: 10, maxBytes: 1e6 });
+    fill(buffer, 5);
+
+    expect(
+      buffer
+        .getMessages({ sinceTime: new Date('2026-01-01T00:00:04Z') })
+        .map((message) => message.seq)
+    ).toEqual([4, 5]);
+  });
+
+  it('evicts the oldest messages beyond the message limit', () => {
+    const buffer = new ReplayBuffer({ maxMessages: 3, maxBytes: 1e6 });
+    fill(buffer, 5);
+
+    expect(buffer.getMessages().map((message) => message.seq)).toEqual([
+      3, 4, 5,
+    ]);
+    expect(buffer.isTruncated()).toBe(true);
+    expect(buffer.isTruncated({ sinceSeq: 1 })).toBe(true);
+    expect(buffer.isTruncated({ sinceSeq: 2 })).toBe(false);
+  });
+
+  it('evicts the oldest messages beyond the byte limit', () => {
+    const buffer = new ReplayBuffer({ maxMessages: 100, maxBytes: 1e6 });
+    fill(buffer, 1);
+    const size = buffer.bytes;
+
+    const bounded = new ReplayBuffer({ maxMessages: 100, maxBytes: size * 2 });
+    fill(bounded, 4);
+
+    expect(bounded.size).toBe(2);
+    expect(bounded.bytes).toBeLessThanOrEqual(size * 2);
+  });
+
+  it('is not truncated before anything is evicted', () => {
+    const buffer = new ReplayBuffer({ maxMessages: 10, maxBytes: 1e6 });
+    fill(buffer, 3);
+
+    expect(buffer.isTruncated()).toBe(false);
+    expect(buffer.isTruncated({ sinceSeq: 0 })).toBe(false);
+  });
+});
@@ -0,0 +1,228 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { FileRunStore } from '../src/file-run-store.js';
+import {
+  applyMessage,
+  createRunRecord,
+  filterMessages,
+  selectExpiredRuns,
+} from '../src/run-store.js';
+import type { Message, RunRecord } from '../src/types.js';
+import { MessageType } from '../src/types.js';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.parse('2026-01-02T00:00:00Z');
+
+function message(
+  type: MessageType,
+  data: Message['data'],
+  timestamp = '2026-01-01T00:00:00Z',
+  seq?: number
+): Message {
+  return { type, containerID: 'run-1', timestamp, seq, data };
+}
+
+function run(
+  containerID: string,
+  hoursAgo: { ended?: number; lastMessage?: number; started?: number },
+  bytes = 100
+): RunRecord {
+  const at = (hours?: number) =>
+    hours === undefined
+      ? undefined
+      : new Date(NOW - hours * HOUR).toISOString();
+  return {
+    containerID,
+    startedAt: at(hoursAgo.started ?? 48) as string,
+    endedAt: at(hoursAgo.ended),
+    lastMessageAt: at(hoursAgo.lastMessage),
+    messageCount: 1,
+    bytes,
+  };
+}
+
+describe('applyMessage', () => {
+  it('records the outcome and timings from COMPLETE', () => {
+    const record = createRunRecord('run-1', '2026-01-01T00:00:00Z');
+    applyMessage(
+      record,
+      message(
+        MessageType.STATUS,
+        { status: 'running', phase: 'executing' },
+        '2026-01-01T00:00:10Z'
+      ),
+      10
+    );
+    applyMessage(
+      record,
+      message(
+        MessageType.COMPLETE,
+        { exitCode: 0, branch: 'claude/run-1', outcome: 'completed' },
+        '2026-01-01T00:01:00Z'
+      ),
+      20
+    );
+
+    expect(record).toMatchObject({
+      status: 'completed',
+      exitCode: 0,
+      branch: 'claude/run-1',
+      endedAt: '2026-01-01T00:01:00Z',
+      lastMessageAt: '2026-01-01T00:01:00Z',
+      messageCount: 2,
+      bytes: 30,
+    });
+  });
+});
+
+describe('filterMessages', () => {
+  const messages = [1, 2, 3].map((seq) =>
+    message(
+      MessageType.LOG,
+      { level: 'info', message: `line ${seq}` },
+      `2026-01-01T00:00:0${seq}Z`,
+      seq
+    )
+  );
+
+  it('keeps messages after a sequence number', () => {
+    expect(
+      filterMessages(messages, { sinceSeq: 1 }).map((entry) => entry.seq)
+    ).toEqual([2, 3]);
+  });
+
+  it('keeps messages at or after a time', () => {
+    expect(
+      filterMessages(messages, {
+        sinceTime: new Date('2026-01-01T00:00:03Z'),
+      }).map((entry) => entry.seq)
+    ).toEqual([3]);
+  });
+});
+
+describe('selectExpiredRuns', () => {
+  const retention = { maxAge: 24 * HOUR, maxBytes: 1000 };
+
+  it('expires finished runs by when they ended', () => {
+    const expired = selectExpiredRuns(
+      [run('old', { ended: 30 }), run('recent', { ended: 2 })],
+      retention,
+      NOW
+    );
+
+    expect(expired.map((entry) => entry.containerID)).toEqual(['old']);
+  });
+
+  it('expires unfinished runs by their last message', () => {
+    const expired = selectExpiredRuns(
+      [
+        run('abandoned', { lastMessage: 30 }),
+        run('active', { lastMessage: 1 }),
+      ],
+      retention,
+      NOW
+    );
+
+    expect(expired.map((entry) => entry.containerID)).toEqual(['abandoned']);
+  });
+
+  it('deletes the oldest finished runs to free space', () => {
+    const expired = selectExpiredRuns(
+      [
+        run('newest', { ended: 1 }, 400),
+        run('oldest', { ended: 3 }, 400),
+        run('middle', { ended: 2 }, 400),
+        run('active', { lastMessage: 1 }, 400),
+      ],
+      retention,
+      NOW
+    );
+
+    expect(expired.map((entry) => entry.containerID)).toEqual([
+      'oldest',
+      'middle',
+    ]);
+  });
+});
+
+describe('FileRunStore', () => {
+  let directory: string;
+  let store: FileRunStore;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), 'run-store-'));
+    store = new FileRunStore({
+      directory,
+      retention: { maxAge: 24 * HOUR, maxBytes: 1e9 },
+    });
+    await store.init();
+  });
+
+  afterEach(async () => {
+    await store.close();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('returns messages whose writes are still buffered', async () => {
+    for (let seq = 1; seq <= 200; seq++) {
+      void store.append(
+        message(
+          MessageType.LOG,
+          { level: 'info', message: 'x' },
+          undefined,
+          seq
+        )
+      );
+    }
+
+    const messages = await store.getMessages('run-1');
+    expect(messages).toHaveLength(200);
+    expect(messages[199].seq).toBe(200);
+  });
+
+  it('reloads runs with the time of their last message', async () => {
+    await store.append(
+      message(MessageType.LOG, { level: 'info', message: 'x' }, undefined, 1)
+    );
+    await store.getMessages('run-1');
+    await store.close();
+
+    const reloaded = new FileRunStore({
+      directory,
+      retention: { maxAge: 24 * HOUR, maxBytes: 1e9 },
+    });
+    await reloaded.init();
+    const record = await reloaded.getRun('run-1');
+
+    expect(record?.lastMessageAt).toBeDefined();
+    expect(record?.messageCount).toBe(1);
+  });
+
+  it('counts messages logged since the metadata was last saved', async () => {
+    await store.append(
+      message(MessageType.STATUS, { status: 'running' }, undefined, 1)
+    );
+    for (let seq = 2; seq <= 4; seq++) {
+      await store.append(
+        message(
+          MessageType.LOG,
+          { level: 'info', message: 'x' },
+          undefined,
+          seq
+        )
+      );
+    }
+    await store.getMessages('run-1');
+
+    // Reload without closing, as after a crash
+    const reloaded = new FileRunStore({
+      directory,
+      retention: { maxAge: 24 * HOUR, maxBytes: 1e9 },
+    });
+    await reloaded.init();
+
+    expect((await reloaded.getRun('run-1'))?.messageCount).toBe(4);
+  });
+});
@@ -0,0 +1,262 @@
+import { spawn } from 'node:child_process';
+import type { ChildProcess } from 'node:child_process';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { createServer } from 'node:net';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest';
+import { WebSocket } from 'ws';
+import type { ErrorData, Message } from '../src/types.js';
+import { MessageType } from '../src/types.js';
+
+const ADMIN_TOKEN = 'admin';
+const packageDir = fileURLToPath(new URL('..', import.meta.url));
+
+let server: ChildProcess;
+let directory: string;
+let baseUrl: string;
+const sockets: WebSocket[] = [];
+
+/**
+ * A port nothing is listening on
+ */
+async function freePort(): Promise<number> {
+  const probe = createServer();
+  await new Promise<void>((resolve) => probe.listen(0, resolve));
+  const { port } = probe.address() as AddressInfo;
+  await new Promise((resolve) => probe.close(resolve));
+  return port;
+}
+
+beforeAll(async () => {
+  directory = await mkdtemp(path.join(tmpdir(), 'server-'));
+  const port = await freePort();
+  baseUrl = `127.0.0.1:${port}`;
+  server = spawn(
+    path.join(packageDir, 'node_modules/.bin/tsx'),
+    ['src/index.ts'],
+    {
+      cwd: packageDir,
+      env: {
+        ...process.env,
+        AUTH_TOKEN: ADMIN_TOKEN,
+        PORT: String(port),
+        RUN_STORE_DIR: directory,
+        LOG_LEVEL: 'silent',
+      },
+      stdio: 'ignore',
+    }
+  );
+
+  const deadline = Date.now() + 15000;
+  for (;;) {
+    try {
+      const response = await fetch(`http://${baseUrl}/runs`);
+      if (response.status < 500) {
+        break;
+      }
+    } catch (error) {
+      if (Date.now() > deadline) {
+        throw error;
+      }
+    }
+    await new Promise((resolve) => setTimeout(resolve, 100));
+  }
+}, 20000);
+
+afterAll(async () => {
+  const exited = new Promise((resolve) => server.once('exit', resolve));
+  server.kill('SIGTERM');
+  await exited;
+  await rm(directory, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  for (const socket of sockets.splice(0)) {
+    socket.terminate();
+  }
+});
+
+interface Client {
+  send(type: MessageType, data: Message['data'], containerID?: string): void;
+  next(type: MessageType): Promise<Message>;
+  closed: Promise<{ code: number; reason: string }>;
+}
+
+/**
+ * Connect to the server and collect the messages it sends
+ */
+async function connect(
+  containerID: string,
+  role: 'producer' | 'viewer'
+): Promise<Client> {
+  const socket = new WebSocket(
+    `ws://${baseUrl}/?containerID=${containerID}&role=${role}&token=${ADMIN_TOKEN}`
+  );
+  sockets.push(socket);
+
+  const received: Message[] = [];
+  const waiting: { type: MessageType; resolve: (m: Message) => void }[] = [];
+  socket.on('message', (data) => {
+    const message = JSON.parse(data.toString()) as Message;
+    const index = waiting.findIndex((waiter) => waiter.type === message.type);
+    if (index === -1) {
+      received.push(message);
+    } else {
+      waiting.splice(index, 1)[0].resolve(message);
+    }
+  });
+  const closed = new Promise<{ code: number; reason: string }>((resolve) => {
+    socket.on('close', (code, reason) =>
+      resolve({ code, reason: reason.toString() })
+    );
+  });
+  await new Promise((resolve, reject) => {
+    socket.once('open', resolve);
+    socket.once('error', reject);
+  });
+
+  return {
+    send: (type, data, target = containerID) =>
+      socket.send(
+        JSON.stringify({
+          type,
+          containerID: target,
+          timestamp: new Date().toISOString(),
+          data,
+        })
+      ),
+    next: (type) => {
+      const index = received.findIndex((message) => message.type === type);
+      if (index !== -1) {
+        return Promise.resolve(received.splice(index, 1)[0]);
+      }
+      return new Promise((resolve) => waiting.push({ type, resolve }));
+    },
+    closed,
+  };
+}
+
+describe('producer and viewer roles', () => {
+  it("relays a producer's messages to viewers", async () => {
+    const producer = await connect('roles-1', 'producer');
+    const viewer = await connect('roles-1', 'viewer');
+
+    producer.send(MessageType.LOG, { level: 'info', message: 'Cloning' });
+
+    expect((await viewer.next(MessageType.LOG)).data).toEqual({
+      level: 'info',
+      message: 'Cloning',
+    });
+  });
+
+  it('rejects output published by a viewer', async () => {
+    const viewer = await connect('roles-2', 'viewer');
+
+    viewer.send(MessageType.LOG, { level: 'info', message: 'Spoofed' });
+
+    expect((await viewer.next(MessageType.ERROR)).data).toMatchObject({
+      code: 'FORBIDDEN',
+    });
+  });
+
+  it('rejects output for another container', async () => {
+    const producer = await connect('roles-3', 'producer');
+
+    producer.send(
+      MessageType.LOG,
+      { level: 'info', message: 'Elsewhere' },
+      'roles-4'
+    );
+
+    expect(
+      ((await producer.next(MessageType.ERROR)).data as ErrorData).error
+    ).toBe('Not allowed to publish LOG for roles-4');
+  });
+
+  it('allows one producer per container', async () => {
+    await connect('roles-5', 'producer');
+    const second = await connect('roles-5', 'producer');
+
+    expect(await second.closed).toEqual({
+      code: 1008,
+      reason: 'Container already has a producer',
+    });
+  });
+});
+
+describe('control requests', () => {
+  it('routes a request to the producer and its ack to viewers', async () => {
+    const producer = await connect('control-1', 'producer');
+    const viewer = await connect('control-1', 'viewer');
+    const other = await connect('control-1', 'viewer');
+
+    viewer.send(MessageType.CONTROL, {
+      action: 'CANCEL',
+      requestId: 'req-1',
+      reason: 'Wrong task',
+    });
+    const routed = await producer.next(MessageType.CONTROL);
+    producer.send(MessageType.CONTROL_ACK, {
+      action: 'CANCEL',
+      requestId: 'req-1',
+      accepted: true,
+      message: 'Stopping Claude; work so far will be published',
+    });
+
+    expect(routed).toMatchObject({
+      containerID: 'control-1',
+      data: { action: 'CANCEL', requestId: 'req-1', reason: 'Wrong task' },
+    });
+    for (const client of [viewer, other]) {
+      expect((await client.next(MessageType.CONTROL_ACK)).data).toEqual({
+        action: 'CANCEL',
+        requestId: 'req-1',
+        accepted: true,
+        message: 'Stopping Claude; work so far will be published',
+      });
+    }
+  });
+
+  it('reports containers without a producer', async () => {
+    const viewer = await connect('control-2', 'viewer');
+
+    viewer.send(MessageType.CONTROL, { action: 'PING', requestId: 'req-2' });
+
+    expect((await viewer.next(MessageType.ERROR)).data).toEqual({
+      error: 'Container control-2 is not connected',
+      code: 'NOT_CONNECTED',
+    });
+  });
+
+  it('rejects unknown actions', async () => {
+    await connect('control-3', 'producer');
+    const viewer = await connect('control-3', 'viewer');
+
+    viewer.send(MessageType.CONTROL, { action: 'REBOOT', requestId: 'req-3' });
+
+    expect((await viewer.next(MessageType.ERROR)).data).toMatchObject({
+      code: 'INVALID_CONTROL',
+    });
+  });
+
+  it('only accepts requests from viewers of the container', async () => {
+    const producer = await connect('control-4', 'producer');
+    const viewer = await connect('control-5', 'viewer');
+
+    producer.send(MessageType.CONTROL, { action: 'PING', requestId: 'req-4' });
+    viewer.send(
+      MessageType.CONTROL,
+      { action: 'CANCEL', requestId: 'req-5' },
+      'control-4'
+    );
+
+    for (const client of [producer, viewer]) {
+      expect((await client.next(MessageType.ERROR)).data).toMatchObject({
+        code: 'FORBIDDEN',
+      });
+    }
+  });
+});